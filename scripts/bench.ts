@@ -0,0 +1,35 @@
+/**
+ * Headless simulation benchmark. Prints per-tick update timings for a few
+ * scene sizes so regressions show up without a browser.
+ *
+ * Usage: npm run bench [-- <bullets> <enemies> <bosses>]
+ */
+import { BenchmarkScene, DEFAULT_BENCHMARK_SCENE, measureUpdate } from '../src/engine/benchmark';
+
+const [bullets, enemies, bosses] = process.argv.slice(2).map(Number);
+const custom: BenchmarkScene | null = bullets
+  ? { bullets, enemies: enemies || DEFAULT_BENCHMARK_SCENE.enemies, bosses: bosses || DEFAULT_BENCHMARK_SCENE.bosses }
+  : null;
+
+const scenes: BenchmarkScene[] = custom
+  ? [custom]
+  : [
+      { ...DEFAULT_BENCHMARK_SCENE, bullets: 250 },
+      DEFAULT_BENCHMARK_SCENE,
+      { ...DEFAULT_BENCHMARK_SCENE, bullets: 4000, enemies: 120 },
+    ];
+
+// Warm up the JIT before measuring
+measureUpdate(DEFAULT_BENCHMARK_SCENE, 300);
+
+console.table(scenes.map(scene => {
+  const timings = measureUpdate(scene);
+  return {
+    bullets: scene.bullets,
+    enemies: scene.enemies,
+    bosses: scene.bosses,
+    'update avg (ms)': timings.avgMs.toFixed(3),
+    'update p95 (ms)': timings.p95Ms.toFixed(3),
+    'update max (ms)': timings.maxMs.toFixed(3),
+  };
+}));
@@ -10,92 +10,452 @@ import {
   Pause, 
   RotateCcw, 
   Trophy, 
-  Shield, 
   Zap, 
   Heart, 
   Info, 
   ChevronRight,
   Gamepad2,
-  X
+  X,
+  Download,
+  Upload,
+  Film,
+  Gauge,
+  Pencil,
+  Rocket,
+  BarChart3,
+  Wrench,
+  Coins
 } from 'lucide-react';
-import GameCanvas from './components/GameCanvas';
-import { GameState, Achievement } from './types';
-import { ACHIEVEMENTS_LIST } from './constants';
+import GameCanvas, { BenchmarkSample, PlaybackOptions, PlaybackProgress } from './components/GameCanvas';
+import LevelEditor from './components/LevelEditor';
+import Hangar from './components/Hangar';
+import StatsScreen from './components/StatsScreen';
+import UpgradeShop from './components/UpgradeShop';
+import {
+  GameState,
+  Achievement,
+  Replay,
+  Checkpoint,
+  WeaponType,
+  EffectTimer,
+  ComboStatus,
+  ScoreSource,
+  Difficulty,
+  DirectorAdjustment,
+  GameMode,
+  RunOutcome,
+  RunSetup,
+  ShipType,
+  SpecialStatus,
+  AchievementCondition,
+  LifetimeStats,
+  RunSummary,
+  GameEvent,
+  RecordTag,
+  PlayerProfile
+} from './types';
+import {
+  ACHIEVEMENTS_LIST,
+  CONTINUE_COUNTDOWN,
+  DIFFICULTY_PROFILES,
+  GAME_MODES,
+  POWERUP_CONFIGS,
+  SHIP_CONFIGS,
+  TICK_MS,
+  WEAPON_CONFIGS
+} from './constants';
+import { parseReplay, serializeReplay } from './engine/replay';
+import { parseCheckpoint, serializeCheckpoint } from './engine/checkpoint';
+import { BenchmarkScene, DEFAULT_BENCHMARK_SCENE } from './engine/benchmark';
+import { LevelPlaytest } from './engine/playtest';
+import { SCORE_SOURCES } from './engine/scoring';
+import { achievementProgress, trackAchievements } from './engine/achievements';
+import {
+  addRun,
+  buyUpgrade,
+  changeSettings,
+  loadProfile,
+  parseProfile,
+  recordScore,
+  saveProfile,
+  serializeProfile,
+  unlockAchievement
+} from './engine/profile';
+import { createUpgradeLevels, hasUpgrades, runSalvage } from './engine/upgrades';
+import { createEventBus } from './engine/eventBus';
+
+const CHECKPOINT_KEY = 'gherros_checkpoint';
+const MODES = Object.values(GameMode);
+const DIFFICULTIES = Object.values(Difficulty);
+
+// Time survived reads in seconds; everything else as a plain count
+const formatProgress = (condition: AchievementCondition, value: number) =>
+  condition.kind !== 'boss' && condition.stat === 'survived' ? `${Math.floor(value / 1000)}s` : value.toLocaleString();
+
+// How far a locked achievement has got; one-step ones are simply done or not
+const ProgressBar = ({
+  condition,
+  lifetime,
+  difficulty,
+}: {
+  condition: AchievementCondition;
+  lifetime: LifetimeStats;
+  difficulty: Difficulty;
+}) => {
+  const { value, target } = achievementProgress(condition, null, lifetime, difficulty);
+  if (target <= 1) return null;
+  return (
+    <div className="mt-2 flex items-center gap-2">
+      <div className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+        <div className="h-full rounded-full bg-yellow-500" style={{ width: `${Math.min(1, value / target) * 100}%` }} />
+      </div>
+      <span className="text-[10px] font-mono text-gray-400">
+        {formatProgress(condition, Math.min(value, target))}/{formatProgress(condition, target)}
+      </span>
+    </div>
+  );
+};
+
+const RECORD_TAG_NAMES: Record<RecordTag, string> = {
+  assist: '辅助',
+  continued: '续关',
+  upgraded: '改装',
+};
+
+const OUTCOME_TITLES: Record<RunOutcome, { title: string; message: string }> = {
+  destroyed: { title: '任务失败', message: '您的战机已被摧毁，星际防线失守。' },
+  cleared: { title: '任务完成', message: '所有首领均已伏诛，星际防线固若金汤。' },
+  timeUp: { title: '时间到', message: '限时挑战结束，看看这次的战果吧。' },
+};
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+const SCORE_SOURCE_NAMES: Record<ScoreSource, string> = {
+  kills: '击毁敌机',
+  combo: '连击加成',
+  bosses: '首领战',
+  formations: '编队全灭',
+  graze: '擦弹',
+  noMiss: '无伤奖励',
+  escapes: '漏敌扣分',
+  headStart: '起始分数',
+};
+
+// ?benchmark enables the stress scene; ?benchmark=3000 overrides its bullet count
+const readBenchmarkScene = (): BenchmarkScene | null => {
+  const param = new URLSearchParams(window.location.search).get('benchmark');
+  if (param === null) return null;
+  const bullets = parseInt(param);
+  return bullets > 0 ? { ...DEFAULT_BENCHMARK_SCENE, bullets } : DEFAULT_BENCHMARK_SCENE;
+};
+const BENCHMARK_SCENE = readBenchmarkScene();
+
+// Where the director left its knobs, as shown on the game-over summary
+const describeAdjustment = (a: DirectorAdjustment) =>
+  `敌机 ×${a.spawnRate.toFixed(2)} 耐久 ×${a.enemyHealth.toFixed(2)} 补给 ×${a.powerUpRate.toFixed(2)}`;
+
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor((ticks * TICK_MS) / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
 
 export default function App() {
   const [gameState, setGameState] = useState<GameState>(GameState.START);
+  const [profile, setProfile] = useState(() => loadProfile(localStorage));
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const profileInputRef = useRef<HTMLInputElement>(null);
+  const [resumeFrom, setResumeFrom] = useState<Checkpoint | null>(null);
+  // A continued run plays on the settings it was saved with, leaving the ones chosen in the menu alone
+  const { mode, difficulty, ship } = resumeFrom
+    ? { mode: resumeFrom.world.mode, difficulty: resumeFrom.world.difficulty, ship: resumeFrom.world.player.ship }
+    : profile.settings;
+  const { assist, pure } = profile.settings;
+  const { score: bestScore, tags: bestTags } = profile.records[mode][difficulty];
+  const [showHangar, setShowHangar] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showShop, setShowShop] = useState(false);
   const [score, setScore] = useState(0);
-  const [bestScore, setBestScore] = useState(0);
   const [level, setLevel] = useState(1);
   const [health, setHealth] = useState(3);
-  const [achievements, setAchievements] = useState<Achievement[]>(ACHIEVEMENTS_LIST);
+  const [maxHealth, setMaxHealth] = useState(3);
+  const [weapon, setWeapon] = useState({ type: WeaponType.VULCAN, tier: 0 });
+  const [effects, setEffects] = useState<EffectTimer[]>([]);
+  const [combo, setCombo] = useState<ComboStatus | null>(null);
+  const [special, setSpecial] = useState<SpecialStatus | null>(null);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [runOutcome, setRunOutcome] = useState<RunOutcome>('destroyed');
+  const [runSummary, setRunSummary] = useState<RunSummary | null>(null);
+  const runTagsRef = useRef<RecordTag[]>([]);
+  const [lives, setLives] = useState(0);
+  const [continueOffer, setContinueOffer] = useState({ credits: 0, countdown: 0 });
+  const achievements: Achievement[] = ACHIEVEMENTS_LIST.map(a => ({
+    ...a,
+    unlocked: profile.achievements[difficulty].includes(a.id),
+  }));
+  const lifetimeRef = useRef(profile.lifetime);
+  lifetimeRef.current = profile.lifetime;
+  const unlockedRef = useRef(profile.achievements);
+  unlockedRef.current = profile.achievements;
+  const [events] = useState(() => createEventBus<GameEvent>());
   const [lastAchievement, setLastAchievement] = useState<Achievement | null>(null);
   const [showInstructions, setShowInstructions] = useState(false);
   const [showGallery, setShowGallery] = useState(false);
   const [bossWarning, setBossWarning] = useState<string | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [playback, setPlayback] = useState<PlaybackOptions | null>(null);
+  const [playbackProgress, setPlaybackProgress] = useState<PlaybackProgress | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [savedRun, setSavedRun] = useState<Checkpoint | null>(null);
+  const [benchmarkActive, setBenchmarkActive] = useState(false);
+  const [benchmarkSample, setBenchmarkSample] = useState<BenchmarkSample | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [playtest, setPlaytest] = useState<LevelPlaytest | null>(null);
+  // A pure run leaves the shop's upgrades in the garage
+  const runSetup: RunSetup = { mode, difficulty, assist, ship, upgrades: pure ? createUpgradeLevels() : profile.upgrades };
+
+  // Every change to the profile is saved as it happens
+  const updateProfile = useCallback((update: (prev: PlayerProfile) => PlayerProfile) => {
+    setProfile(prev => {
+      const updated = update(prev);
+      if (updated !== prev) saveProfile(localStorage, updated);
+      return updated;
+    });
+  }, []);
+
+  const setMode = (value: GameMode) => updateProfile(p => changeSettings(p, { mode: value }));
+  const setDifficulty = (value: Difficulty) => updateProfile(p => changeSettings(p, { difficulty: value }));
+  const setAssist = (value: boolean) => updateProfile(p => changeSettings(p, { assist: value }));
+  const setShip = (value: ShipType) => updateProfile(p => changeSettings(p, { ship: value }));
+  const setPure = (value: boolean) => updateProfile(p => changeSettings(p, { pure: value }));
 
-  // Load high score and achievements from localStorage
   useEffect(() => {
-    const savedBestScore = localStorage.getItem('gherros_best_score');
-    if (savedBestScore) setBestScore(parseInt(savedBestScore));
-
-    const savedAchievements = localStorage.getItem('gherros_achievements');
-    if (savedAchievements) {
-      const parsed = JSON.parse(savedAchievements);
-      setAchievements(prev => prev.map(a => ({
-        ...a,
-        unlocked: parsed.includes(a.id)
-      })));
+    const savedCheckpoint = localStorage.getItem(CHECKPOINT_KEY);
+    if (savedCheckpoint) {
+      try {
+        setSavedRun(parseCheckpoint(savedCheckpoint));
+      } catch {
+        // An unreadable checkpoint can't be continued; drop it
+        localStorage.removeItem(CHECKPOINT_KEY);
+      }
     }
   }, []);
 
+  // A finished run has nothing left to continue (an editor test run never replaced it)
+  useEffect(() => {
+    if (gameState === GameState.GAMEOVER && !playtest) {
+      localStorage.removeItem(CHECKPOINT_KEY);
+      setSavedRun(null);
+    }
+  }, [gameState, playtest]);
+
+  // Back in the menu, its own choices apply again
+  useEffect(() => {
+    if (gameState === GameState.START) setResumeFrom(null);
+  }, [gameState]);
+
   // Handle game events from canvas
+  const handleRunStarted = useCallback((event: Extract<GameEvent, { type: 'RunStarted' }>) => {
+    setScore(event.score);
+    setLevel(event.level);
+    setHealth(event.health);
+    setMaxHealth(event.maxHealth);
+    setLives(event.lives);
+    setWeapon({ type: event.weapon, tier: event.weaponTier });
+  }, []);
+
+  // Records are flagged when set with the director's help or after continuing
   const handleScoreUpdate = useCallback((newScore: number) => {
     setScore(newScore);
-    if (newScore > bestScore) {
-      setBestScore(newScore);
-      localStorage.setItem('gherros_best_score', newScore.toString());
+    if (newScore > bestScore && !playtest) {
+      updateProfile(p => recordScore(p, mode, difficulty, newScore, runTagsRef.current));
     }
-  }, [bestScore]);
+  }, [bestScore, playtest, difficulty, mode, updateProfile]);
 
-  const handleLevelUpdate = useCallback((newLevel: number) => {
-    setLevel(newLevel);
-  }, []);
+  // Finished runs (outside editor test runs and the benchmark) count toward lifetime achievements
+  const handleRunSummary = useCallback((summary: RunSummary) => {
+    setRunSummary(summary);
+    if (playtest || benchmarkActive) return;
+    updateProfile(p => addRun(p, summary));
+  }, [playtest, benchmarkActive, updateProfile]);
 
-  const handleHealthUpdate = useCallback((newHealth: number) => {
-    setHealth(newHealth);
-    if (newHealth <= 0) {
+  // Shot down with credits left (outside editor test runs) offers a continue first
+  const handleRunEnded = useCallback((outcome: RunOutcome, credits: number) => {
+    setRunOutcome(outcome);
+    if (outcome === 'destroyed' && credits > 0 && !playtest) {
+      setContinueOffer({ credits, countdown: CONTINUE_COUNTDOWN });
+      setGameState(GameState.CONTINUE);
+    } else {
       setGameState(GameState.GAMEOVER);
     }
-  }, []);
+  }, [playtest]);
 
+  // Editor test runs never count toward achievements
   const handleAchievementUnlock = useCallback((id: string) => {
-    setAchievements(prev => {
-      const index = prev.findIndex(a => a.id === id);
-      if (index !== -1 && !prev[index].unlocked) {
-        const updated = [...prev];
-        updated[index] = { ...updated[index], unlocked: true };
-        
-        // Save to localStorage
-        const unlockedIds = updated.filter(a => a.unlocked).map(a => a.id);
-        localStorage.setItem('gherros_achievements', JSON.stringify(unlockedIds));
-
-        setLastAchievement(updated[index]);
-        setTimeout(() => setLastAchievement(null), 3000);
-        return updated;
-      }
-      return prev;
-    });
+    if (playtest || unlockedRef.current[difficulty].includes(id)) return;
+    const achievement = ACHIEVEMENTS_LIST.find(a => a.id === id);
+    if (achievement) setLastAchievement({ ...achievement, unlocked: true });
+    updateProfile(prev => unlockAchievement(prev, difficulty, id));
+  }, [difficulty, playtest, updateProfile]);
+
+  // Each unlock shows for three seconds; a newer one takes its place and starts the count again
+  useEffect(() => {
+    if (!lastAchievement) return;
+    const timer = setTimeout(() => setLastAchievement(null), 3000);
+    return () => clearTimeout(timer);
+  }, [lastAchievement]);
+
+  // The HUD, records and achievements all follow the game's events
+  useEffect(() => {
+    const unsubscribe = [
+      events.on('RunStarted', handleRunStarted),
+      events.on('ScoreChanged', e => handleScoreUpdate(e.score)),
+      events.on('LevelUp', e => setLevel(e.level)),
+      events.on('HealthChanged', e => setHealth(e.health)),
+      events.on('LivesChanged', e => setLives(e.lives)),
+      events.on('WeaponChanged', e => setWeapon({ type: e.weapon, tier: e.tier })),
+      events.on('EffectsChanged', e => setEffects(e.effects)),
+      events.on('ComboChanged', e => setCombo(e.combo)),
+      events.on('SpecialChanged', e => setSpecial(e.special)),
+      events.on('TimeLeftChanged', e => setTimeLeft(e.ms)),
+      events.on('BossWarning', e => setBossWarning(e.bossName)),
+      events.on('RunEnded', e => handleRunEnded(e.outcome, e.credits)),
+      events.on('RunSummary', e => handleRunSummary(e.summary)),
+      events.on('AchievementUnlocked', e => handleAchievementUnlock(e.id)),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [events, handleRunStarted, handleScoreUpdate, handleRunEnded, handleRunSummary, handleAchievementUnlock]);
+
+  useEffect(() => trackAchievements(events, () => lifetimeRef.current), [events]);
+
+  const handleCheckpoint = useCallback((checkpoint: Checkpoint) => {
+    localStorage.setItem(CHECKPOINT_KEY, serializeCheckpoint(checkpoint));
+    setSavedRun(checkpoint);
+  }, []);
+
+  const handleReplayRecorded = useCallback((replay: Replay) => {
+    setLastReplay(replay);
   }, []);
 
-  const handleBossWarning = useCallback((bossName: string | null) => {
-    setBossWarning(bossName);
+  const handlePlaybackProgress = useCallback((progress: PlaybackProgress) => {
+    setPlaybackProgress(progress);
+    setScore(progress.score);
+    setLevel(progress.level);
+    setHealth(progress.health);
+    setMaxHealth(progress.maxHealth);
+    setLives(progress.lives);
+    setWeapon({ type: progress.weapon, tier: progress.weaponTier });
   }, []);
 
+  const watchReplay = (replay: Replay) => {
+    setReplayError(null);
+    setPlaybackProgress(null);
+    setPlayback({ replay, paused: false, speed: 1, seek: null });
+    setGameState(GameState.REPLAY);
+  };
+
+  const exitReplay = () => {
+    setPlayback(null);
+    setGameState(GameState.START);
+  };
+
+  const exportReplay = () => {
+    if (!lastReplay) return;
+    const blob = new Blob([serializeReplay(lastReplay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lsr-replay-${lastReplay.finalScore}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      watchReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : '无法读取回放文件');
+    }
+  };
+
+  const exportProfile = () => {
+    const blob = new Blob([serializeProfile(profile)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lsr-profile-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // An imported profile replaces this browser's progress outright
+  const importProfile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfile(await file.text());
+      updateProfile(() => imported);
+      setProfileError(null);
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : '无法读取档案文件');
+    }
+  };
+
+  const continueGame = () => {
+    if (!savedRun) return;
+    setPlaytest(null);
+    runTagsRef.current = [];
+    if (savedRun.world.director) runTagsRef.current.push('assist');
+    if (savedRun.world.continues > 0) runTagsRef.current.push('continued');
+    if (hasUpgrades(savedRun.world.upgrades)) runTagsRef.current.push('upgraded');
+    setResumeFrom(savedRun);
+    setGameState(GameState.PLAYING);
+  };
+
+  const startBenchmark = () => {
+    setResumeFrom(null);
+    setPlaytest(null);
+    setBenchmarkSample(null);
+    setBenchmarkActive(true);
+    setGameState(GameState.PLAYING);
+  };
+
+  const startPlaytest = (test: LevelPlaytest) => {
+    setResumeFrom(null);
+    setBenchmarkActive(false);
+    setPlaytest(test);
+    setGameState(GameState.PLAYING);
+  };
+
   const startGame = () => {
-    setScore(0);
-    setLevel(1);
-    setHealth(3);
+    runTagsRef.current = assist ? ['assist'] : [];
+    if (hasUpgrades(runSetup.upgrades)) runTagsRef.current.push('upgraded');
+    setResumeFrom(null);
+    setBenchmarkActive(false);
+    setPlaytest(null);
+    setRunSummary(null);
+    setGameState(GameState.PLAYING);
+  };
+
+  // The continue screen counts down to game over unless a credit is spent
+  useEffect(() => {
+    if (gameState !== GameState.CONTINUE) return;
+    if (continueOffer.countdown <= 0) {
+      setGameState(GameState.GAMEOVER);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setContinueOffer(prev => ({ ...prev, countdown: prev.countdown - 1 }));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [gameState, continueOffer.countdown]);
+
+  const spendCredit = () => {
+    if (!runTagsRef.current.includes('continued')) runTagsRef.current = [...runTagsRef.current, 'continued'];
     setGameState(GameState.PLAYING);
   };
 
@@ -104,6 +464,34 @@ export default function App() {
     else if (gameState === GameState.PAUSED) setGameState(GameState.PLAYING);
   };
 
+  // P toggles pause; leaving the tab or window pauses automatically
+  useEffect(() => {
+    const pauseIfPlaying = () => {
+      setGameState(prev => prev === GameState.PLAYING ? GameState.PAUSED : prev);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'KeyP' || e.repeat) return;
+      if ((e.target as HTMLElement).closest?.('input, textarea, select')) return;
+      setGameState(prev => {
+        if (prev === GameState.PLAYING) return GameState.PAUSED;
+        if (prev === GameState.PAUSED) return GameState.PLAYING;
+        return prev;
+      });
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseIfPlaying();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('blur', pauseIfPlaying);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('blur', pauseIfPlaying);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
   return (
     <div className="min-h-screen bg-[#050505] text-white font-sans overflow-hidden selection:bg-blue-500/30">
       {/* Background Stars - CSS Animation */}
@@ -179,13 +567,41 @@ export default function App() {
         <main className="flex-1 relative flex items-center justify-center bg-black/40 rounded-3xl border border-white/5 overflow-hidden shadow-2xl">
           <GameCanvas 
             gameState={gameState}
-            onScoreUpdate={handleScoreUpdate}
-            onLevelUpdate={handleLevelUpdate}
-            onHealthUpdate={handleHealthUpdate}
-            onAchievementUnlock={handleAchievementUnlock}
-            onBossWarning={handleBossWarning}
+            setup={runSetup}
+            playback={playback}
+            resumeFrom={resumeFrom}
+            benchmark={benchmarkActive ? BENCHMARK_SCENE : null}
+            playtest={playtest}
+            events={events}
+            onReplayRecorded={handleReplayRecorded}
+            onPlaybackProgress={handlePlaybackProgress}
+            onCheckpoint={handleCheckpoint}
+            onBenchmarkSample={setBenchmarkSample}
           />
 
+          {/* Benchmark Overlay */}
+          {benchmarkActive && gameState !== GameState.START && (
+            <div className="absolute top-24 right-6 z-20 glass-card px-4 py-3 font-mono text-xs space-y-1 pointer-events-none">
+              <div className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Benchmark</div>
+              {benchmarkSample ? (
+                <>
+                  <div>FPS <span className="text-white">{benchmarkSample.fps.toFixed(0)}</span></div>
+                  <div>
+                    UPDATE <span className="text-blue-400">{benchmarkSample.update.avgMs.toFixed(2)}</span>
+                    <span className="text-gray-500"> / p95 {benchmarkSample.update.p95Ms.toFixed(2)} ms</span>
+                  </div>
+                  <div>
+                    DRAW <span className="text-red-400">{benchmarkSample.draw.avgMs.toFixed(2)}</span>
+                    <span className="text-gray-500"> / p95 {benchmarkSample.draw.p95Ms.toFixed(2)} ms</span>
+                  </div>
+                  <div className="text-gray-500">{benchmarkSample.bullets} 子弹 · {benchmarkSample.enemies} 敌机</div>
+                </>
+              ) : (
+                <div className="text-gray-500">采样中...</div>
+              )}
+            </div>
+          )}
+
           {/* Boss Warning Overlay */}
           <AnimatePresence>
             {bossWarning && (
@@ -212,12 +628,31 @@ export default function App() {
               <div className="flex flex-col gap-1">
                 <div className="text-xs uppercase tracking-widest text-blue-400 font-bold">Score</div>
                 <div className="text-3xl font-mono font-black tracking-tighter">{score.toLocaleString()}</div>
+                {timeLeft !== null && (
+                  <div className={`text-lg font-mono font-bold ${timeLeft <= 10000 ? 'text-red-400 animate-pulse' : 'text-sky-400'}`}>
+                    {formatTicks(Math.ceil(timeLeft / TICK_MS))}
+                  </div>
+                )}
+                {combo && combo.count >= 2 && (
+                  <div className="w-28">
+                    <div className="flex items-baseline justify-between text-xs font-bold">
+                      <span className="text-yellow-400">{combo.count} 连击</span>
+                      <span className="font-mono text-white">×{combo.multiplier.toFixed(2)}</span>
+                    </div>
+                    <div className="mt-1 h-1 rounded-full bg-white/10 overflow-hidden">
+                      <div
+                        className="h-full rounded-full bg-yellow-400"
+                        style={{ width: `${(combo.remaining / combo.duration) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
               
               <div className="flex flex-col items-center gap-2">
                 <div className="glass-card px-4 py-2 flex items-center gap-4">
                   <div className="flex gap-1">
-                    {[...Array(3)].map((_, i) => (
+                    {[...Array(maxHealth)].map((_, i) => (
                       <Heart 
                         key={i} 
                         size={20} 
@@ -225,16 +660,129 @@ export default function App() {
                       />
                     ))}
                   </div>
+                  {lives > 0 && (
+                    <div className="flex items-center gap-1 text-sm font-bold text-sky-300">
+                      <Rocket size={16} /> ×{lives}
+                    </div>
+                  )}
                   <div className="w-px h-4 bg-white/20" />
                   <div className="text-sm font-bold">LVL {level}</div>
+                  <div className="w-px h-4 bg-white/20" />
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-bold" style={{ color: WEAPON_CONFIGS[weapon.type].color }}>
+                      {WEAPON_CONFIGS[weapon.type].name}
+                    </span>
+                    <div className="flex gap-0.5">
+                      {WEAPON_CONFIGS[weapon.type].tiers.map((_, i) => (
+                        <div
+                          key={i}
+                          className="w-1.5 h-3 rounded-sm"
+                          style={{ backgroundColor: i <= weapon.tier ? WEAPON_CONFIGS[weapon.type].color : 'rgba(255,255,255,0.15)' }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  {special && (
+                    <>
+                      <div className="w-px h-4 bg-white/20" />
+                      <div className="w-20">
+                        <div className={`text-[10px] font-bold ${special.remaining > 0 ? 'text-gray-500' : 'text-sky-300'}`}>
+                          {special.name}
+                        </div>
+                        <div className="mt-1 h-1 rounded-full bg-white/10 overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-sky-400"
+                            style={{ width: `${(1 - special.remaining / special.cooldown) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    </>
+                  )}
                 </div>
+
+                {/* Active power-ups */}
+                {effects.length > 0 && (
+                  <div className="flex flex-wrap justify-center gap-2 max-w-md">
+                    {effects.map(effect => {
+                      const config = POWERUP_CONFIGS[effect.type];
+                      return (
+                        <div key={effect.type} className="glass-card !rounded-xl px-3 py-1.5 min-w-[88px]">
+                          <div className="flex items-center justify-between gap-2 text-[10px] font-bold">
+                            <span style={{ color: config.color }}>
+                              {config.name}{effect.stacks > 1 && ` ×${effect.stacks}`}
+                            </span>
+                            {effect.duration > 0 && (
+                              <span className="font-mono text-gray-400">{(effect.remaining / 1000).toFixed(1)}s</span>
+                            )}
+                          </div>
+                          {effect.duration > 0 && (
+                            <div className="mt-1 h-1 rounded-full bg-white/10 overflow-hidden">
+                              <div
+                                className="h-full rounded-full"
+                                style={{ width: `${(effect.remaining / effect.duration) * 100}%`, backgroundColor: config.color }}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
 
+              {gameState !== GameState.REPLAY ? (
+                <button 
+                  onClick={togglePause}
+                  className="pointer-events-auto w-10 h-10 rounded-full glass-card flex items-center justify-center hover:bg-white/10 transition-colors"
+                >
+                  {gameState === GameState.PAUSED ? <Play size={20} fill="white" /> : <Pause size={20} fill="white" />}
+                </button>
+              ) : (
+                <div className="glass-card px-3 py-2 text-xs font-bold text-purple-400 flex items-center gap-2">
+                  <Film size={14} /> REPLAY
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Replay Controls */}
+          {gameState === GameState.REPLAY && playback && (
+            <div className="absolute bottom-6 left-6 right-6 z-30 glass-card px-4 py-3 flex items-center gap-4">
               <button 
-                onClick={togglePause}
-                className="pointer-events-auto w-10 h-10 rounded-full glass-card flex items-center justify-center hover:bg-white/10 transition-colors"
+                onClick={() => setPlayback({ ...playback, paused: !playback.paused })}
+                className="w-10 h-10 shrink-0 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-colors"
               >
-                {gameState === GameState.PAUSED ? <Play size={20} fill="white" /> : <Pause size={20} fill="white" />}
+                {playback.paused ? <Play size={18} fill="white" /> : <Pause size={18} fill="white" />}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={playback.replay.ticks}
+                value={playbackProgress?.tick ?? 0}
+                onChange={(e) => setPlayback({ ...playback, seek: { tick: Number(e.target.value) } })}
+                className="flex-1 accent-purple-500"
+              />
+              <div className="text-xs font-mono text-gray-400 shrink-0">
+                {formatTicks(playbackProgress?.tick ?? 0)} / {formatTicks(playback.replay.ticks)}
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {PLAYBACK_SPEEDS.map(speed => (
+                  <button
+                    key={speed}
+                    onClick={() => setPlayback({ ...playback, speed })}
+                    className={`px-2 py-1 rounded-lg text-xs font-bold transition-colors ${
+                      playback.speed === speed ? 'bg-purple-600' : 'bg-white/5 hover:bg-white/10'
+                    }`}
+                  >
+                    {speed}x
+                  </button>
+                ))}
+              </div>
+              <button 
+                onClick={exitReplay}
+                className="w-10 h-10 shrink-0 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-colors"
+              >
+                <X size={18} />
               </button>
             </div>
           )}
@@ -280,14 +828,86 @@ export default function App() {
                   </h1>
                   <p className="text-red-400 font-mono tracking-widest text-sm mb-4">LSR STAR PIONEER PROTOCOL v1.0</p>
                   
-                  <div className="mb-8 flex flex-col items-center gap-1">
-                    <div className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Best Record</div>
+                  <div className="mb-6 flex flex-col items-center gap-1">
+                    <div className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+                      Best Record · {GAME_MODES[mode].name} · {DIFFICULTY_PROFILES[difficulty].name}
+                      {bestTags.map(tag => (
+                        <span key={tag} className="text-green-400"> · {RECORD_TAG_NAMES[tag]}</span>
+                      ))}
+                    </div>
                     <div className="text-2xl font-mono font-black text-yellow-500 drop-shadow-[0_0_10px_rgba(234,179,8,0.3)]">
                       {bestScore.toLocaleString()}
                     </div>
                   </div>
+
+                  <div className="mb-4">
+                    <div className="grid grid-cols-4 gap-2">
+                      {MODES.map(m => (
+                        <button
+                          key={m}
+                          onClick={() => setMode(m)}
+                          className={`py-2 rounded-xl text-xs font-bold border transition-all ${
+                            m === mode ? 'bg-white/10' : 'glass-card border-transparent text-gray-500 hover:bg-white/5'
+                          }`}
+                          style={m === mode ? { color: GAME_MODES[m].color, borderColor: GAME_MODES[m].color } : undefined}
+                        >
+                          {GAME_MODES[m].name}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="mt-2 text-xs text-gray-400">{GAME_MODES[mode].description}</p>
+                  </div>
+
+                  <div className="mb-8">
+                    <div className="grid grid-cols-4 gap-2">
+                      {DIFFICULTIES.map(d => (
+                        <button
+                          key={d}
+                          onClick={() => setDifficulty(d)}
+                          className={`py-2 rounded-xl text-sm font-bold border transition-all ${
+                            d === difficulty ? 'bg-white/10' : 'glass-card border-transparent text-gray-500 hover:bg-white/5'
+                          }`}
+                          style={d === difficulty ? { color: DIFFICULTY_PROFILES[d].color, borderColor: DIFFICULTY_PROFILES[d].color } : undefined}
+                        >
+                          {DIFFICULTY_PROFILES[d].name}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="mt-2 text-xs text-gray-400">{DIFFICULTY_PROFILES[difficulty].description}</p>
+                    <label className="mt-3 flex items-center justify-center gap-2 text-xs text-gray-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={assist}
+                        onChange={e => setAssist(e.target.checked)}
+                        className="accent-green-500"
+                      />
+                      动态难度辅助 · 按表现微调敌机与补给，纪录将被标注
+                    </label>
+                    <label className="mt-1 flex items-center justify-center gap-2 text-xs text-gray-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={pure}
+                        onChange={e => setPure(e.target.checked)}
+                        className="accent-amber-500"
+                      />
+                      纯净模式 · 不带改装出击，纪录不会被标注
+                    </label>
+                  </div>
                   
                   <div className="flex flex-col gap-4">
+                    {savedRun && (
+                      <button 
+                        onClick={continueGame}
+                        className="px-12 py-4 bg-blue-600 rounded-full font-bold text-lg transition-all hover:scale-105 hover:shadow-[0_0_40px_rgba(37,99,235,0.6)] flex flex-col items-center"
+                      >
+                        <span className="flex items-center justify-center gap-2">
+                          继续任务 <ChevronRight size={20} />
+                        </span>
+                        <span className="text-[10px] font-mono text-blue-200 uppercase tracking-widest">
+                          {GAME_MODES[savedRun.world.mode].name} · {DIFFICULTY_PROFILES[savedRun.world.difficulty].name} · LVL {savedRun.world.level} · {savedRun.world.score.toLocaleString()}
+                        </span>
+                      </button>
+                    )}
                     <button 
                       onClick={startGame}
                       className="group relative px-12 py-4 bg-red-600 rounded-full font-bold text-xl overflow-hidden transition-all hover:scale-105 hover:shadow-[0_0_40px_rgba(220,38,38,0.6)]"
@@ -297,6 +917,14 @@ export default function App() {
                         开始任务 <Play size={20} fill="currentColor" />
                       </span>
                     </button>
+                    {BENCHMARK_SCENE && (
+                      <button 
+                        onClick={startBenchmark}
+                        className="px-6 py-3 glass-card rounded-full font-bold text-sm hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                      >
+                        <Gauge size={18} className="text-blue-400" /> 性能测试 · {BENCHMARK_SCENE.bullets} 子弹
+                      </button>
+                    )}
                     
                     <div className="grid grid-cols-2 gap-4">
                       <button 
@@ -312,6 +940,52 @@ export default function App() {
                         <Info size={18} className="text-blue-500" /> 游戏说明
                       </button>
                     </div>
+                    <button 
+                      onClick={() => setShowHangar(true)}
+                      className="px-6 py-3 glass-card rounded-full font-bold text-sm hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                    >
+                      <Rocket size={18} className="text-sky-400" /> 机库 · {SHIP_CONFIGS[ship].name}
+                    </button>
+                    <button 
+                      onClick={() => setShowStats(true)}
+                      className="px-6 py-3 glass-card rounded-full font-bold text-sm hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                    >
+                      <BarChart3 size={18} className="text-emerald-400" /> 生涯统计 · {profile.lifetime.runs} 局
+                    </button>
+                    <button 
+                      onClick={() => setShowShop(true)}
+                      className="px-6 py-3 glass-card rounded-full font-bold text-sm hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                    >
+                      <Wrench size={18} className="text-amber-400" /> 改装车间 · {profile.salvage.toLocaleString()} 回收币
+                    </button>
+                    <button 
+                      onClick={() => setEditorOpen(true)}
+                      className="px-6 py-3 glass-card rounded-full font-bold text-sm hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                    >
+                      <Pencil size={18} className="text-green-400" /> 关卡编辑器
+                    </button>
+                    <div className="grid grid-cols-2 gap-4">
+                      <button 
+                        onClick={exportProfile}
+                        className="px-6 py-3 glass-card rounded-full font-bold text-xs hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                      >
+                        <Download size={16} className="text-gray-400" /> 导出档案
+                      </button>
+                      <button 
+                        onClick={() => profileInputRef.current?.click()}
+                        className="px-6 py-3 glass-card rounded-full font-bold text-xs hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                      >
+                        <Upload size={16} className="text-gray-400" /> 导入档案
+                      </button>
+                      <input
+                        ref={profileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={importProfile}
+                        className="hidden"
+                      />
+                    </div>
+                    {profileError && <p className="text-xs text-red-400">{profileError}</p>}
                   </div>
                 </motion.div>
               </motion.div>
@@ -344,6 +1018,37 @@ export default function App() {
               </motion.div>
             )}
 
+            {gameState === GameState.CONTINUE && (
+              <motion.div 
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute inset-0 z-40 bg-black/70 backdrop-blur-sm flex flex-col items-center justify-center"
+              >
+                <div className="glass-card p-12 flex flex-col items-center gap-6 max-w-sm w-full text-center">
+                  <h2 className="text-4xl font-black italic tracking-tighter">继续作战?</h2>
+                  <div className="text-7xl font-mono font-black text-yellow-400 drop-shadow-[0_0_20px_rgba(250,204,21,0.4)]">
+                    {continueOffer.countdown}
+                  </div>
+                  <p className="text-gray-400 text-sm">在原关卡满血重生，分数清零，本局将被标注为续关。</p>
+                  <div className="flex flex-col gap-4 w-full">
+                    <button 
+                      onClick={spendCredit}
+                      className="w-full py-4 bg-blue-600 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-blue-500 transition-colors"
+                    >
+                      投币续关 · 剩余 {continueOffer.credits} <Play size={20} fill="currentColor" />
+                    </button>
+                    <button 
+                      onClick={() => setGameState(GameState.GAMEOVER)}
+                      className="w-full py-4 glass-card rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-white/10 transition-colors"
+                    >
+                      放弃 <X size={20} />
+                    </button>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+
             {gameState === GameState.GAMEOVER && (
               <motion.div 
                 initial={{ opacity: 0 }}
@@ -356,8 +1061,8 @@ export default function App() {
                     <Gamepad2 size={40} />
                   </div>
                   <div>
-                    <h2 className="text-4xl font-black italic tracking-tighter mb-2">任务失败</h2>
-                    <p className="text-gray-400 text-sm">您的战机已被摧毁，星际防线失守。</p>
+                    <h2 className="text-4xl font-black italic tracking-tighter mb-2">{OUTCOME_TITLES[runOutcome].title}</h2>
+                    <p className="text-gray-400 text-sm">{OUTCOME_TITLES[runOutcome].message}</p>
                   </div>
 
                   <div className="grid grid-cols-2 gap-4 w-full">
@@ -371,7 +1076,78 @@ export default function App() {
                     </div>
                   </div>
 
+                  {runSummary && (
+                    <div className="w-full bg-white/5 p-4 rounded-2xl border border-white/5 text-sm space-y-1">
+                      <div className="text-xs text-blue-400 font-bold uppercase mb-2 text-left">得分明细</div>
+                      {SCORE_SOURCES.filter(source => runSummary.breakdown[source] !== 0).map(source => (
+                        <div key={source} className="flex justify-between">
+                          <span className="text-gray-400">{SCORE_SOURCE_NAMES[source]}</span>
+                          <span className={`font-mono ${runSummary.breakdown[source] < 0 ? 'text-red-400' : 'text-white'}`}>
+                            {runSummary.breakdown[source] > 0 && '+'}{runSummary.breakdown[source].toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between pt-1 border-t border-white/10">
+                        <span className="text-gray-400">最高连击</span>
+                        <span className="font-mono text-yellow-400">{runSummary.bestCombo}</span>
+                      </div>
+                      {runSummary.continues > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">续关</span>
+                          <span className="font-mono text-sky-300">{runSummary.continues} 次</span>
+                        </div>
+                      )}
+                      {runSummary.assist && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">动态难度调整</span>
+                          <span className="font-mono text-green-400">
+                            {runSummary.assist.length} 次
+                            {runSummary.assist.length > 0 && ` · ${describeAdjustment(runSummary.assist[runSummary.assist.length - 1])}`}
+                          </span>
+                        </div>
+                      )}
+                      {!playtest && !benchmarkActive && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">回收币</span>
+                          <span className="font-mono text-amber-300 flex items-center gap-1">
+                            <Coins size={12} /> +{runSalvage(runSummary).toLocaleString()}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <div className="w-full">
+                    <div className="grid grid-cols-3 gap-2 mb-4">
+                      <button 
+                        onClick={() => lastReplay && watchReplay(lastReplay)}
+                        disabled={!lastReplay}
+                        className="py-3 glass-card rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-white/10 transition-colors disabled:opacity-30"
+                      >
+                        <Film size={16} /> 观看回放
+                      </button>
+                      <button 
+                        onClick={exportReplay}
+                        disabled={!lastReplay}
+                        className="py-3 glass-card rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-white/10 transition-colors disabled:opacity-30"
+                      >
+                        <Download size={16} /> 导出回放
+                      </button>
+                      <button 
+                        onClick={() => replayInputRef.current?.click()}
+                        className="py-3 glass-card rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-white/10 transition-colors"
+                      >
+                        <Upload size={16} /> 导入回放
+                      </button>
+                      <input
+                        ref={replayInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={importReplay}
+                        className="hidden"
+                      />
+                    </div>
+                    {replayError && <p className="text-xs text-red-400 mb-4">{replayError}</p>}
                     <button 
                       onClick={startGame}
                       className="w-full py-4 bg-blue-600 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-blue-500 transition-colors mb-4"
@@ -391,6 +1167,39 @@ export default function App() {
           </AnimatePresence>
         </main>
 
+        {/* Level Editor */}
+        {editorOpen && (
+          <LevelEditor onPlaytest={startPlaytest} onClose={() => setEditorOpen(false)} />
+        )}
+
+        {/* Hangar */}
+        {showHangar && (
+          <Hangar
+            ship={ship}
+            unlocked={profile.ships}
+            difficulty={difficulty}
+            upgrades={runSetup.upgrades}
+            onSelect={setShip}
+            onClose={() => setShowHangar(false)}
+          />
+        )}
+
+        {/* Upgrade shop */}
+        {showShop && (
+          <UpgradeShop
+            salvage={profile.salvage}
+            upgrades={profile.upgrades}
+            pure={pure}
+            onBuy={type => updateProfile(p => buyUpgrade(p, type))}
+            onClose={() => setShowShop(false)}
+          />
+        )}
+
+        {/* Lifetime stats */}
+        {showStats && (
+          <StatsScreen lifetime={profile.lifetime} history={profile.history} onClose={() => setShowStats(false)} />
+        )}
+
         {/* Mobile Instructions Modal */}
         <AnimatePresence>
           {showGallery && (
@@ -425,9 +1234,10 @@ export default function App() {
                       }`}>
                         <Trophy size={24} />
                       </div>
-                      <div>
+                      <div className="flex-1 min-w-0">
                         <div className="font-bold text-lg leading-tight mb-1">{achievement.title}</div>
                         <p className="text-xs text-gray-400 leading-relaxed">{achievement.description}</p>
+                        {!achievement.unlocked && <ProgressBar condition={achievement.condition} lifetime={profile.lifetime} difficulty={difficulty} />}
                       </div>
                     </div>
                   ))}
@@ -471,16 +1281,15 @@ export default function App() {
                   </div>
                   <div>
                     <h3 className="font-bold mb-2 flex items-center gap-2"><Zap size={16} className="text-yellow-500" /> 道具系统</h3>
-                    <div className="grid grid-cols-2 gap-3 mt-2">
-                      <div className="bg-white/5 p-3 rounded-xl border border-white/5 flex flex-col items-center text-center">
-                        <Zap size={20} className="text-yellow-400 mb-1" />
-                        <span className="text-[10px] font-bold">三向子弹</span>
-                      </div>
-                      <div className="bg-white/5 p-3 rounded-xl border border-white/5 flex flex-col items-center text-center">
-                        <Shield size={20} className="text-blue-400 mb-1" />
-                        <span className="text-[10px] font-bold">能量护盾</span>
-                      </div>
+                    <div className="grid grid-cols-3 gap-2 mt-2">
+                      {Object.values(POWERUP_CONFIGS).map(config => (
+                        <div key={config.label} className="bg-white/5 p-2 rounded-xl border border-white/5 flex flex-col items-center text-center">
+                          <span className="text-sm font-black mb-0.5" style={{ color: config.color }}>{config.label}</span>
+                          <span className="text-[10px] font-bold">{config.name}</span>
+                        </div>
+                      ))}
                     </div>
+                    <p className="text-xs text-gray-500 mt-2">武器模块每次拾取升一级；护盾最多叠加三层。</p>
                   </div>
                 </div>
                 <button 
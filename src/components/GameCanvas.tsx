@@ -1,87 +1,164 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { 
   GameState, 
-  Player, 
-  Enemy, 
-  Bullet, 
-  PowerUp, 
   Particle, 
   Planet,
   EnemyType, 
-  PowerUpType 
+  InputFrame,
+  SimEvent,
+  Replay,
+  Entity,
+  Checkpoint,
+  WeaponType,
+  RunSetup,
+  GameEvent
 } from '../types';
 import { 
   CANVAS_WIDTH, 
   CANVAS_HEIGHT, 
-  PLAYER_SIZE, 
-  PLAYER_SPEED, 
-  PLAYER_MAX_HEALTH,
-  BULLET_WIDTH,
-  BULLET_HEIGHT,
-  BULLET_SPEED,
   ENEMY_CONFIGS,
-  POWERUP_SIZE,
-  POWERUP_DURATION,
-  BOSS_CONFIGS,
-  PLANET_COLORS
+  PLANET_COLORS,
+  TICK_MS,
+  WEAPON_CONFIGS,
+  POWERUP_CONFIGS,
+  SHIELDER_RADIUS,
+  SHIP_CONFIGS
 } from '../constants';
+import { drawShip } from './shipArt';
+import { clearBattlefield, createWorld, step } from '../engine/simulation';
+import { getBossConfig, timeLeft } from '../engine/modes';
+import { continueRun } from '../engine/lives';
+import { describeSpecial } from '../engine/ships';
+import { createRng, randomSeed } from '../engine/rng';
+import { Playback, createPlayback, createRecorder, quantizeInput } from '../engine/replay';
+import { createCheckpoint, restoreCheckpoint } from '../engine/checkpoint';
+import { createPool, removeWhere } from '../engine/pool';
+import {
+  BenchmarkScene,
+  BenchmarkTimings,
+  createBenchmarkWorld,
+  summarizeTimings,
+  topUpBenchmarkScene
+} from '../engine/benchmark';
+import { LevelPlaytest, createPlaytestWorld } from '../engine/playtest';
+import { describeEffects } from '../engine/powerups';
+import { describeCombo } from '../engine/scoring';
+import { EventBus } from '../engine/eventBus';
+
+// Longest frame the loop will catch up on, so a stalled tab doesn't fast-forward the run
+const MAX_FRAME_MS = 250;
+const PARTICLE_DECAY = 1.2; // life lost per second
+const POPUP_DECAY = 0.8;
+const POPUP_RISE_SPEED = 40; // px per second
+const BENCHMARK_REPORT_MS = 1000;
+const EFFECT_REPORT_MS = 100; // HUD timers count down in steps this size
+
+const particlePool = createPool<Particle>(() => ({
+  x: 0,
+  y: 0,
+  vx: 0,
+  vy: 0,
+  life: 0,
+  maxLife: 0,
+  color: '',
+  size: 0,
+}));
+const isFaded = (p: { life: number }) => p.life <= 0;
+
+export interface PlaybackOptions {
+  replay: Replay;
+  paused: boolean;
+  speed: number;
+  seek: { tick: number } | null;
+}
+
+export interface BenchmarkSample {
+  update: BenchmarkTimings;
+  draw: BenchmarkTimings;
+  fps: number;
+  bullets: number;
+  enemies: number;
+}
+
+export interface PlaybackProgress {
+  tick: number;
+  totalTicks: number;
+  score: number;
+  level: number;
+  health: number;
+  maxHealth: number;
+  lives: number;
+  weapon: WeaponType;
+  weaponTier: number;
+}
 
 interface GameCanvasProps {
   gameState: GameState;
-  onScoreUpdate: (score: number) => void;
-  onLevelUpdate: (level: number) => void;
-  onHealthUpdate: (health: number) => void;
-  onAchievementUnlock: (id: string) => void;
-  onBossWarning: (bossName: string | null) => void;
+  setup: RunSetup; // for new runs; resumed ones keep their own
+  playback: PlaybackOptions | null;
+  resumeFrom: Checkpoint | null;
+  benchmark: BenchmarkScene | null;
+  playtest: LevelPlaytest | null;
+  events: EventBus<GameEvent>; // where the live run's events are published
+  onReplayRecorded: (replay: Replay) => void;
+  onPlaybackProgress: (progress: PlaybackProgress) => void;
+  onCheckpoint: (checkpoint: Checkpoint) => void;
+  onBenchmarkSample: (sample: BenchmarkSample) => void;
 }
 
 const GameCanvas: React.FC<GameCanvasProps> = ({ 
   gameState, 
-  onScoreUpdate, 
-  onLevelUpdate, 
-  onHealthUpdate, 
-  onAchievementUnlock,
-  onBossWarning
+  setup,
+  playback,
+  resumeFrom,
+  benchmark,
+  playtest,
+  events,
+  onReplayRecorded,
+  onPlaybackProgress,
+  onCheckpoint,
+  onBenchmarkSample
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
   
-  // Game State Refs (to avoid closure issues in loop)
-  const scoreRef = useRef(0);
-  const levelRef = useRef(1);
-  const healthRef = useRef(PLAYER_MAX_HEALTH);
-  const startTimeRef = useRef(Date.now());
-  const lastEnemySpawnRef = useRef(0);
-  const lastPowerUpSpawnRef = useRef(0);
-  const lastShotRef = useRef(0);
-  const lastLevelHealedRef = useRef(1);
-  const bossWarningActiveRef = useRef(false);
-  const bossEntranceTimerRef = useRef(0);
-  
-  // Entities
-  const playerRef = useRef<Player>({
-    id: 'player',
-    x: CANVAS_WIDTH / 2 - PLAYER_SIZE / 2,
-    y: CANVAS_HEIGHT - 100,
-    width: PLAYER_SIZE,
-    height: PLAYER_SIZE,
-    speed: PLAYER_SPEED,
-    health: PLAYER_MAX_HEALTH,
-    maxHealth: PLAYER_MAX_HEALTH,
-    shieldActive: false,
-    invincible: false,
-    invincibleTimer: 0,
-    powerUpTimer: 0,
-    activePowerUp: null,
-  });
+  // Simulation State (advanced by the headless engine, only drawn here)
+  const worldRef = useRef(createWorld());
+  const rngRef = useRef(createRng(randomSeed()));
+  const tickRef = useRef(0);
+  const accumulatorRef = useRef(0);
+  const lastFrameTimeRef = useRef(0);
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+  const onCheckpointRef = useRef(onCheckpoint);
+  onCheckpointRef.current = onCheckpoint;
+  const effectsReportRef = useRef('');
+  const comboReportRef = useRef('');
+  const clockReportRef = useRef<number | null>(null);
+  const specialReportRef = useRef('');
+
+  // Benchmark scene: fixed entity counts, with update/draw timings sampled per frame
+  const benchmarkRef = useRef(benchmark);
+  benchmarkRef.current = benchmark;
+  const benchmarkTimingsRef = useRef({ update: [] as number[], draw: [] as number[], since: 0 });
+
+  // Editor test run of an unsaved level; never saved, recorded or counted toward achievements
+  const playtestRef = useRef(playtest);
+  playtestRef.current = playtest;
+
+  // Replay recording of the live run, and playback of a loaded one
+  const seedRef = useRef(0);
+  const recorderRef = useRef(createRecorder(0));
+  const playbackRef = useRef<Playback | null>(null);
+  const playbackOptionsRef = useRef(playback);
+  const playbackReportedTickRef = useRef(0);
+  playbackOptionsRef.current = playback;
   
-  const enemiesRef = useRef<Enemy[]>([]);
-  const bulletsRef = useRef<Bullet[]>([]);
-  const powerUpsRef = useRef<PowerUp[]>([]);
+  // Cosmetic Entities
   const particlesRef = useRef<Particle[]>([]);
+  const popupsRef = useRef<{ x: number; y: number; text: string; life: number }[]>([]);
   const planetsRef = useRef<Planet[]>([]);
   const starsRef = useRef<{x: number, y: number, size: number, speed: number}[]>([]);
-  const bossesRef = useRef<Enemy[]>([]);
   
   // Input tracking
   const keysRef = useRef<{ [key: string]: boolean }>({});
@@ -91,6 +168,8 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   const bgMusicRef = useRef<HTMLAudioElement | null>(null);
   const bossMusicRef = useRef<HTMLAudioElement | null>(null);
 
+  const bulletGradientsRef = useRef(new Map<string, CanvasGradient>());
+
   // Image Assets Refs
   const imagesRef = useRef<{ [key: string]: HTMLImageElement }>({});
   const [imagesLoaded, setImagesLoaded] = useState(false);
@@ -99,7 +178,6 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   useEffect(() => {
     // Load Images
     const assetList = {
-      player: '/player.png',
       enemy_basic: '/enemy_basic.png',
       enemy_fast: '/enemy_fast.png',
       enemy_heavy: '/enemy_heavy.png',
@@ -133,7 +211,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         x: Math.random() * CANVAS_WIDTH,
         y: Math.random() * CANVAS_HEIGHT,
         size: 40 + Math.random() * 100,
-        speed: 0.1 + Math.random() * 0.3,
+        speed: 6 + Math.random() * 18,
         color: colorSet.main,
         detailColor: colorSet.detail,
       });
@@ -147,7 +225,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         x: Math.random() * CANVAS_WIDTH,
         y: Math.random() * CANVAS_HEIGHT,
         size: Math.random() * 1.5,
-        speed: 0.05 + Math.random() * 0.1,
+        speed: 3 + Math.random() * 6,
       });
     }
     starsRef.current = stars;
@@ -170,40 +248,122 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     };
   }, []);
 
-  // Handle Music Transitions and Reset
+  // The soundtrack follows the boss fights
+  useEffect(() => {
+    const unsubscribe = [
+      events.on('BossSpawned', () => {
+        bgMusicRef.current?.pause();
+        bossMusicRef.current?.play().catch(() => {});
+      }),
+      events.on('BossDefeated', () => {
+        bossMusicRef.current?.pause();
+        bgMusicRef.current?.play().catch(() => {});
+      }),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [events]);
+
   const prevGameStateRef = useRef<GameState>(gameState);
+
+  // Sets up a fresh world for the kind of run being started
+  const beginRun = () => {
+    if (benchmark) {
+      seedRef.current = 1;
+      rngRef.current = createRng(seedRef.current);
+      worldRef.current = createBenchmarkWorld(rngRef.current, benchmark);
+      tickRef.current = 0;
+      recorderRef.current = createRecorder(seedRef.current);
+      benchmarkTimingsRef.current = { update: [], draw: [], since: 0 };
+    } else if (resumeFrom) {
+      const run = restoreCheckpoint(resumeFrom);
+      seedRef.current = run.seed;
+      worldRef.current = run.world;
+      rngRef.current = run.rng;
+      tickRef.current = run.tick;
+      recorderRef.current = createRecorder(run.seed, run.recording);
+    } else if (playtest) {
+      seedRef.current = randomSeed();
+      worldRef.current = createPlaytestWorld(playtest, setup);
+      rngRef.current = createRng(seedRef.current);
+      tickRef.current = 0;
+      recorderRef.current = createRecorder(seedRef.current);
+    } else {
+      seedRef.current = randomSeed();
+      worldRef.current = createWorld(setup);
+      rngRef.current = createRng(seedRef.current);
+      tickRef.current = 0;
+      recorderRef.current = createRecorder(seedRef.current);
+    }
+    accumulatorRef.current = 0;
+    clearParticles();
+
+    const world = worldRef.current;
+    events.emit({
+      type: 'RunStarted',
+      resumed: !!resumeFrom,
+      difficulty: world.difficulty,
+      score: world.score,
+      level: world.level,
+      health: world.player.health,
+      maxHealth: world.player.maxHealth,
+      lives: world.lives,
+      weapon: world.player.weapon,
+      weaponTier: world.player.weaponTier,
+    });
+    if (world.bossWarningActive) events.emit({ type: 'BossWarning', bossName: getBossConfig(world.bossKey).name });
+  };
+
+  // A new editor test run restarts the world even if one is already under way
   useEffect(() => {
-    if (gameState === GameState.PLAYING && prevGameStateRef.current !== GameState.PLAYING) {
-      // Reset game values when starting a new game
-      scoreRef.current = 0;
-      levelRef.current = 1;
-      healthRef.current = PLAYER_MAX_HEALTH;
-      lastLevelHealedRef.current = 1;
-      startTimeRef.current = Date.now();
-      enemiesRef.current = [];
-      bulletsRef.current = [];
-      powerUpsRef.current = [];
-      particlesRef.current = [];
-      bossesRef.current = [];
-      bossWarningActiveRef.current = false;
-      
-      playerRef.current = {
-        ...playerRef.current,
-        x: CANVAS_WIDTH / 2 - PLAYER_SIZE / 2,
-        y: CANVAS_HEIGHT - 100,
-        health: PLAYER_MAX_HEALTH,
-        shieldActive: false,
-        invincible: false,
-        activePowerUp: null,
-      };
+    const midRun = prevGameStateRef.current === GameState.PLAYING || prevGameStateRef.current === GameState.PAUSED;
+    if (playtest && midRun) beginRun();
+  }, [playtest]);
 
-      onScoreUpdate(0);
-      onLevelUpdate(1);
-      onHealthUpdate(PLAYER_MAX_HEALTH);
+  // Handle Music Transitions and Reset
+  useEffect(() => {
+    const startingRun = prevGameStateRef.current === GameState.START || prevGameStateRef.current === GameState.GAMEOVER;
+    if (gameState === GameState.PLAYING && startingRun) {
+      // Reset game values when starting a new game (resuming from pause keeps the world)
+      beginRun();
+    }
+
+    // Pausing is a safe point to checkpoint the run
+    if (gameState === GameState.PAUSED && prevGameStateRef.current === GameState.PLAYING) {
+      saveCheckpoint();
+    }
+
+    // Spending a credit picks the lost run back up
+    if (gameState === GameState.PLAYING && prevGameStateRef.current === GameState.CONTINUE) {
+      if (continueRun(worldRef.current)) recorderRef.current.recordContinue();
+      events.emit({ type: 'ScoreChanged', score: worldRef.current.score });
+      events.emit({ type: 'HealthChanged', health: worldRef.current.player.health });
+    }
+
+    const runOver = prevGameStateRef.current === GameState.PLAYING || prevGameStateRef.current === GameState.CONTINUE;
+    if (gameState === GameState.GAMEOVER && runOver) {
+      const { mode, difficulty, player, outcome, score, level, scoreBreakdown, bestCombo, director, continues, stats } =
+        worldRef.current;
+      events.emit({
+        type: 'RunSummary',
+        summary: {
+          mode,
+          difficulty,
+          ship: player.ship,
+          outcome: outcome ?? 'destroyed',
+          score,
+          level,
+          breakdown: { ...scoreBreakdown },
+          bestCombo,
+          assist: director && [...director.log],
+          continues,
+          stats: structuredClone(stats),
+        },
+      });
+      if (!playtestRef.current) onReplayRecorded(recorderRef.current.finish(worldRef.current));
     }
 
     if (gameState === GameState.PLAYING) {
-      if (bossesRef.current.length > 0) {
+      if (worldRef.current.bosses.length > 0) {
         bgMusicRef.current?.pause();
         bossMusicRef.current?.play().catch(() => {});
       } else {
@@ -215,33 +375,96 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       bossMusicRef.current?.pause();
     }
     prevGameStateRef.current = gameState;
-  }, [gameState, onScoreUpdate, onLevelUpdate, onHealthUpdate]);
+  }, [gameState, events, onReplayRecorded]);
+
+  // Checkpoint the run if the page is closed mid-mission
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (gameStateRef.current === GameState.PLAYING || gameStateRef.current === GameState.PAUSED) {
+        saveCheckpoint();
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
 
-  // Reset Game & Clear Entities on Pause/GameOver
+  // Clear Entities on GameOver/Exit (pausing leaves the world frozen as it is)
   useEffect(() => {
-    if (gameState === GameState.PAUSED || gameState === GameState.GAMEOVER || gameState === GameState.START) {
+    if (gameState === GameState.GAMEOVER || gameState === GameState.START) {
       // Clear entities as requested
-      enemiesRef.current = [];
-      bulletsRef.current = [];
-      powerUpsRef.current = [];
-      bossesRef.current = [];
+      clearBattlefield(worldRef.current);
     }
   }, [gameState]);
 
+  const saveCheckpoint = () => {
+    if (benchmarkRef.current || playtestRef.current) return;
+    onCheckpointRef.current(createCheckpoint(seedRef.current, tickRef.current, rngRef.current, worldRef.current, recorderRef.current));
+  };
+
+  const reportPlayback = (pb: Playback) => {
+    playbackReportedTickRef.current = pb.tick;
+    onPlaybackProgress({
+      tick: pb.tick,
+      totalTicks: pb.totalTicks,
+      score: pb.world.score,
+      level: pb.world.level,
+      health: pb.world.player.health,
+      maxHealth: pb.world.player.maxHealth,
+      lives: pb.world.lives,
+      weapon: pb.world.player.weapon,
+      weaponTier: pb.world.player.weaponTier,
+    });
+  };
+
+  // Start Replay Playback
+  const replayToPlay = gameState === GameState.REPLAY ? playback?.replay : null;
+  useEffect(() => {
+    if (!replayToPlay) {
+      playbackRef.current = null;
+      return;
+    }
+    const pb = createPlayback(replayToPlay);
+    playbackRef.current = pb;
+    accumulatorRef.current = 0;
+    worldRef.current = pb.world;
+    clearParticles();
+    reportPlayback(pb);
+  }, [replayToPlay]);
+
+  // Scrub Replay Playback
+  const seekRequest = playback?.seek;
+  useEffect(() => {
+    const pb = playbackRef.current;
+    if (!pb || !seekRequest) return;
+    pb.seek(seekRequest.tick);
+    worldRef.current = pb.world;
+    clearParticles();
+    reportPlayback(pb);
+  }, [seekRequest]);
+
   // Input Handlers
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Typing into a form field (e.g. the level editor) shouldn't fly the ship
+      if ((e.target as HTMLElement).closest?.('input, textarea, select')) return;
       keysRef.current[e.code] = true;
     };
     const handleKeyUp = (e: KeyboardEvent) => {
       keysRef.current[e.code] = false;
     };
+    // Key releases are missed while the window is in the background
+    const handleBlur = () => {
+      keysRef.current = {};
+      touchRef.current = null;
+    };
 
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
     };
   }, []);
 
@@ -276,557 +499,183 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   // Helper: Create Explosion
   const createExplosion = (x: number, y: number, color: string, count = 15) => {
     for (let i = 0; i < count; i++) {
-      particlesRef.current.push({
-        x,
-        y,
-        vx: (Math.random() - 0.5) * 8,
-        vy: (Math.random() - 0.5) * 8,
-        life: 1,
-        maxLife: 0.5 + Math.random() * 0.5,
-        color,
-        size: 2 + Math.random() * 4,
-      });
+      const p = particlePool.acquire();
+      p.x = x;
+      p.y = y;
+      p.vx = (Math.random() - 0.5) * 480;
+      p.vy = (Math.random() - 0.5) * 480;
+      p.life = 1;
+      p.maxLife = 0.5 + Math.random() * 0.5;
+      p.color = color;
+      p.size = 2 + Math.random() * 4;
+      particlesRef.current.push(p);
     }
   };
 
-  // Game Logic
-  const update = (dt: number) => {
-    if (gameState !== GameState.PLAYING) return;
-
-    const player = playerRef.current;
-    const now = Date.now();
-
-    // 0. Update Background
-    planetsRef.current.forEach(p => {
-      p.y += p.speed;
-      if (p.y > CANVAS_HEIGHT + p.size) {
-        p.y = -p.size;
-        p.x = Math.random() * CANVAS_WIDTH;
-      }
-    });
-    starsRef.current.forEach(s => {
-      s.y += s.speed;
-      if (s.y > CANVAS_HEIGHT) s.y = 0;
-    });
-
-    // 1. Handle Player Movement
-    if (touchRef.current) {
-      const targetX = touchRef.current.x - player.width / 2;
-      const targetY = touchRef.current.y - player.height / 2;
-      player.x += (targetX - player.x) * 0.2;
-      player.y += (targetY - player.y) * 0.2;
-    } else {
-      if (keysRef.current['ArrowLeft'] || keysRef.current['KeyA']) player.x -= player.speed;
-      if (keysRef.current['ArrowRight'] || keysRef.current['KeyD']) player.x += player.speed;
-      if (keysRef.current['ArrowUp'] || keysRef.current['KeyW']) player.y -= player.speed;
-      if (keysRef.current['ArrowDown'] || keysRef.current['KeyS']) player.y += player.speed;
-    }
-
-    // Boundary checks
-    player.x = Math.max(0, Math.min(CANVAS_WIDTH - player.width, player.x));
-    player.y = Math.max(0, Math.min(CANVAS_HEIGHT - player.height, player.y));
-
-    // 2. Handle Shooting
-    let shotInterval = 200;
-    if (levelRef.current >= 30) shotInterval = 120; // Rapid fire at level 30
-
-    if ((keysRef.current['Space'] || touchRef.current) && now - lastShotRef.current > shotInterval) {
-      const bulletX = player.x + player.width / 2 - BULLET_WIDTH / 2;
-      const bulletY = player.y;
-
-      // New attack methods based on level
-      if (player.activePowerUp === PowerUpType.TRIPLE_SHOT || (levelRef.current >= 15 && levelRef.current < 25)) {
-        bulletsRef.current.push({ id: Math.random().toString(), x: bulletX, y: bulletY, width: BULLET_WIDTH, height: BULLET_HEIGHT, speed: BULLET_SPEED, damage: 1, angle: 0 });
-        bulletsRef.current.push({ id: Math.random().toString(), x: bulletX, y: bulletY, width: BULLET_WIDTH, height: BULLET_HEIGHT, speed: BULLET_SPEED, damage: 1, angle: -0.2 });
-        bulletsRef.current.push({ id: Math.random().toString(), x: bulletX, y: bulletY, width: BULLET_WIDTH, height: BULLET_HEIGHT, speed: BULLET_SPEED, damage: 1, angle: 0.2 });
-      } else if (levelRef.current >= 25) {
-        // Penta shot
-        for (let i = -2; i <= 2; i++) {
-          bulletsRef.current.push({ id: Math.random().toString(), x: bulletX, y: bulletY, width: BULLET_WIDTH, height: BULLET_HEIGHT, speed: BULLET_SPEED, damage: 1, angle: i * 0.15 });
-        }
-      } else if (levelRef.current >= 5) {
-        // Double shot
-        bulletsRef.current.push({ id: Math.random().toString(), x: player.x + 10, y: bulletY, width: BULLET_WIDTH, height: BULLET_HEIGHT, speed: BULLET_SPEED, damage: 1, angle: 0 });
-        bulletsRef.current.push({ id: Math.random().toString(), x: player.x + player.width - 10 - BULLET_WIDTH, y: bulletY, width: BULLET_WIDTH, height: BULLET_HEIGHT, speed: BULLET_SPEED, damage: 1, angle: 0 });
-      } else {
-        bulletsRef.current.push({ id: Math.random().toString(), x: bulletX, y: bulletY, width: BULLET_WIDTH, height: BULLET_HEIGHT, speed: BULLET_SPEED, damage: 1, angle: 0 });
-      }
-      lastShotRef.current = now;
-    }
-
-    // 3. Update Bullets
-    bulletsRef.current.forEach(b => {
-      const dir = b.isEnemy ? -1 : 1;
-      b.x += Math.sin(b.angle) * b.speed;
-      b.y -= Math.cos(b.angle) * b.speed * dir;
-    });
-    bulletsRef.current = bulletsRef.current.filter(b => b.y > -50 && b.y < CANVAS_HEIGHT + 50 && b.x > -50 && b.x < CANVAS_WIDTH + 50);
-
-    // 4. Update Bosses
-    bossesRef.current.forEach(boss => {
-      // Boss movement (side to side + slight vertical)
-      boss.x += boss.speed;
-      if (boss.x <= 0 || boss.x + boss.width >= CANVAS_WIDTH) {
-        boss.speed *= -1;
-      }
-      
-      // Keep boss on screen
-      if (boss.y < 50) boss.y += 1;
-
-      // Boss shooting patterns
-      if (!boss.attackTimer) boss.attackTimer = 0;
-      const attackInterval = levelRef.current >= 20 ? 500 : 1000;
-      
-      if (now - boss.attackTimer > attackInterval) {
-        const pattern = Math.floor(Math.random() * 4); // Increased pattern variety
-        const centerX = boss.x + boss.width / 2;
-        const centerY = boss.y + boss.height / 2;
-
-        if (pattern === 0) {
-          // Circular burst
-          const count = levelRef.current >= 30 ? 20 : 12;
-          for (let i = 0; i < count; i++) {
-            const angle = (i / count) * Math.PI * 2;
-            bulletsRef.current.push({
-              id: Math.random().toString(),
-              x: centerX,
-              y: centerY,
-              width: 8,
-              height: 8,
-              speed: 4,
-              damage: 1,
-              angle: angle,
-              isEnemy: true
-            });
-          }
-        } else if (pattern === 1) {
-          // Targeted burst
-          const angleToPlayer = Math.atan2(player.x + player.width/2 - centerX, -(player.y + player.height/2 - centerY));
-          const count = levelRef.current >= 30 ? 5 : 3;
-          for (let i = -Math.floor(count/2); i <= Math.floor(count/2); i++) {
-            bulletsRef.current.push({
-              id: Math.random().toString(),
-              x: centerX,
-              y: centerY,
-              width: 10,
-              height: 10,
-              speed: 6,
-              damage: 1,
-              angle: angleToPlayer + i * 0.15,
-              isEnemy: true
-            });
-          }
-        } else if (pattern === 2) {
-          // Spiral pattern
-          const time = now / 1000;
-          for (let i = 0; i < 4; i++) {
-            const angle = time + (i / 4) * Math.PI * 2;
-            bulletsRef.current.push({
-              id: Math.random().toString(),
-              x: centerX,
-              y: centerY,
-              width: 8,
-              height: 8,
-              speed: 5,
-              damage: 1,
-              angle: angle,
-              isEnemy: true
-            });
-          }
-        } else {
-          // Vertical rain (avoidable gaps)
-          const count = 10;
-          const gap = Math.floor(Math.random() * (count - 2));
-          for (let i = 0; i < count; i++) {
-            if (i === gap || i === gap + 1) continue; // Gap
-            bulletsRef.current.push({
-              id: Math.random().toString(),
-              x: (CANVAS_WIDTH / count) * i + (CANVAS_WIDTH / count / 2),
-              y: boss.y + boss.height,
-              width: 6,
-              height: 20,
-              speed: 5,
-              damage: 1,
-              angle: 0,
-              isEnemy: true
-            });
-          }
-        }
-
-        // Level 50 Boss Ultimate Move
-        if (levelRef.current >= 50 && Math.random() < 0.1) {
-          // Screen-wide wave
-          for (let i = 0; i < 20; i++) {
-            bulletsRef.current.push({
-              id: Math.random().toString(),
-              x: (CANVAS_WIDTH / 20) * i,
-              y: boss.y + boss.height,
-              width: 10,
-              height: 10,
-              speed: 3,
-              damage: 2,
-              angle: 0,
-              isEnemy: true
-            });
-          }
-        }
-
-        boss.attackTimer = now;
-      }
-    });
-
-    // 5. Update Boss Spawning with Warning
-    const bossLevels = [5, 10, 20, 30, 50];
-    if (bossLevels.includes(levelRef.current) && bossesRef.current.length === 0 && !bossWarningActiveRef.current) {
-      const config = BOSS_CONFIGS[levelRef.current as keyof typeof BOSS_CONFIGS];
-      bossWarningActiveRef.current = true;
-      onBossWarning(config.name);
-      
-      // Clear screen for boss
-      enemiesRef.current = [];
-      
-      setTimeout(() => {
-        onBossWarning(null);
-        
-        // Determine number of bosses
-        let bossCount = 1;
-        if (levelRef.current === 20) bossCount = 2;
-        if (levelRef.current === 30) bossCount = 3;
-        if (levelRef.current === 50) bossCount = 1; // Ghroth Core is one, but huge
-        
-        for (let i = 0; i < bossCount; i++) {
-          bossesRef.current.push({
-            id: `boss_${i}`,
-            type: EnemyType.BASIC,
-            x: (CANVAS_WIDTH / (bossCount + 1)) * (i + 1) - config.width / 2,
-            y: -config.height,
-            width: config.width,
-            height: config.height,
-            speed: config.speed * (i % 2 === 0 ? 1 : -1),
-            health: config.health,
-            maxHealth: config.health,
-            scoreValue: config.scoreValue,
-            isBoss: true,
-            attackTimer: now,
-          });
-        }
+  const clearParticles = () => {
+    particlesRef.current.forEach(particlePool.release);
+    particlesRef.current.length = 0;
+    popupsRef.current.length = 0;
+  };
 
-        // Add Escorts
-        let escortCount = 0;
-        if (levelRef.current === 20) escortCount = 2;
-        if (levelRef.current === 30) escortCount = 3;
-        if (levelRef.current === 50) escortCount = 5;
-
-        for (let i = 0; i < escortCount; i++) {
-          const eType = EnemyType.HEAVY;
-          const eConfig = ENEMY_CONFIGS[eType];
-          enemiesRef.current.push({
-            id: `escort_${i}`,
-            type: eType,
-            x: (CANVAS_WIDTH / (escortCount + 1)) * (i + 1) - eConfig.width / 2,
-            y: -eConfig.height - 100,
-            width: eConfig.width,
-            height: eConfig.height,
-            speed: eConfig.speed,
-            health: eConfig.health * 2, // Stronger escorts
-            maxHealth: eConfig.health * 2,
-            scoreValue: eConfig.scoreValue,
-            attackTimer: now + 1000,
-          });
-        }
+  // Floating bonus text, e.g. for wiping out a formation
+  const showPopup = (x: number, y: number, text: string) => {
+    popupsRef.current.push({ x, y, text, life: 1 });
+  };
 
-        bossEntranceTimerRef.current = now;
-        bossWarningActiveRef.current = false;
-        
-        // Trigger music change
-        bgMusicRef.current?.pause();
-        bossMusicRef.current?.play().catch(() => {});
-      }, 3000);
-    }
+  // Game Logic
+  // Translate the raw keyboard/touch state into a simulation input frame
+  const readInput = (): InputFrame => {
+    const keys = keysRef.current;
+    return {
+      left: !!(keys['ArrowLeft'] || keys['KeyA']),
+      right: !!(keys['ArrowRight'] || keys['KeyD']),
+      up: !!(keys['ArrowUp'] || keys['KeyW']),
+      down: !!(keys['ArrowDown'] || keys['KeyS']),
+      fire: !!keys['Space'],
+      special: !!(keys['KeyE'] || keys['ShiftLeft'] || keys['ShiftRight']),
+      pointer: touchRef.current ? { ...touchRef.current } : null,
+    };
+  };
 
-    // Boss Entrance Animation
-    let isEntering = false;
-    if (bossesRef.current.length > 0 && now - bossEntranceTimerRef.current < 2000) {
-      bossesRef.current.forEach(boss => {
-        const targetY = 50;
-        boss.y += (targetY - boss.y) * 0.05;
-      });
-      isEntering = true;
+  const handleSimEvent = (event: SimEvent) => {
+    // A replay or benchmark only redraws the run; it never touches records or music
+    if (gameState === GameState.REPLAY || benchmarkRef.current) {
+      if (event.type === 'Explosion') createExplosion(event.x, event.y, event.color, event.count);
+      if (event.type === 'FormationWiped') showPopup(event.x, event.y, `编队全灭 +${event.bonus}`);
+      return;
     }
 
-    // Only spawn regular enemies if no boss is present and no warning
-    if (bossesRef.current.length === 0 && !bossWarningActiveRef.current && !isEntering) {
-      const spawnInterval = Math.max(300, 1500 - levelRef.current * 120);
-      if (now - lastEnemySpawnRef.current > spawnInterval) {
-        const rand = Math.random();
-        let type = EnemyType.BASIC;
-        if (levelRef.current >= 3 && rand > 0.6) type = EnemyType.FAST;
-        if (levelRef.current >= 5 && rand > 0.75) type = EnemyType.RANGED;
-        if (levelRef.current >= 7 && rand > 0.9) type = EnemyType.HEAVY;
-
-        const config = ENEMY_CONFIGS[type];
-        // Health scales with level
-        const scaledHealth = config.health + Math.floor(levelRef.current / 2);
-        enemiesRef.current.push({
-          id: Math.random().toString(),
-          type,
-          x: Math.random() * (CANVAS_WIDTH - config.width),
-          y: -config.height,
-          width: config.width,
-          height: config.height,
-          speed: config.speed + (levelRef.current * 0.3),
-          health: scaledHealth,
-          maxHealth: scaledHealth,
-          scoreValue: config.scoreValue,
-          attackTimer: now + Math.random() * 2000, // Randomize first shot
-        });
-        lastEnemySpawnRef.current = now;
+    events.emit(event);
+    switch (event.type) {
+      case 'BossDefeated':
+        saveCheckpoint();
+        break;
+      case 'FormationWiped':
+        showPopup(event.x, event.y, `编队全灭 +${event.bonus}`);
+        break;
+      case 'NoMissBonus':
+        showPopup(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 3, `无伤击破 +${event.bonus}`);
+        break;
+      case 'SpecialUsed': {
+        const player = worldRef.current.player;
+        showPopup(player.x + player.width / 2, player.y - 10, SHIP_CONFIGS[event.ship].specialName);
+        break;
       }
+      case 'Explosion':
+        createExplosion(event.x, event.y, event.color, event.count);
+        break;
     }
+  };
 
-    enemiesRef.current.forEach(e => {
-      if (e.type === EnemyType.RANGED) {
-        // Ranged enemies stop at a certain height to shoot
-        if (e.y < 200) {
-          e.y += e.speed;
-        } else {
-          // Shoot at player
-          if (!e.attackTimer) e.attackTimer = 0;
-          if (now - e.attackTimer > 2000) {
-            const angle = Math.atan2(player.x + player.width/2 - (e.x + e.width/2), -(player.y + player.height/2 - (e.y + e.height/2)));
-            bulletsRef.current.push({
-              id: Math.random().toString(),
-              x: e.x + e.width / 2,
-              y: e.y + e.height,
-              width: 6,
-              height: 6,
-              speed: 4,
-              damage: 1,
-              angle: angle,
-              isEnemy: true
-            });
-            e.attackTimer = now;
-          }
-        }
+  // Advance the simulation by exactly one fixed tick
+  const runTick = () => {
+    if (gameState === GameState.REPLAY) {
+      const pb = playbackRef.current;
+      if (!pb || pb.finished) return;
+      pb.advance()?.events.forEach(handleSimEvent);
+      worldRef.current = pb.world;
+      // Keep HUD re-renders to a few per second
+      if (pb.finished || Math.abs(pb.tick - playbackReportedTickRef.current) >= 15) reportPlayback(pb);
+    } else {
+      if (worldRef.current.outcome) return; // the run is over; hold the final frame
+      const input = quantizeInput(readInput());
+      recorderRef.current.record(input);
+      tickRef.current += 1;
+      step(worldRef.current, input, rngRef.current, tickRef.current).events.forEach(handleSimEvent);
+      if (benchmarkRef.current) {
+        topUpBenchmarkScene(worldRef.current, rngRef.current, benchmarkRef.current);
       } else {
-        e.y += e.speed;
+        events.emit({ type: 'StatsUpdated', stats: worldRef.current.stats });
       }
-    });
-
-    // Check for escaped enemies
-    const escaped = enemiesRef.current.filter(e => e.y > CANVAS_HEIGHT);
-    if (escaped.length > 0) {
-      scoreRef.current = Math.max(0, scoreRef.current - 50 * escaped.length);
-      onScoreUpdate(scoreRef.current);
-      enemiesRef.current = enemiesRef.current.filter(e => e.y <= CANVAS_HEIGHT);
     }
+  };
 
-    // 6. Update PowerUps & Spawning
-    if (now - lastPowerUpSpawnRef.current > 15000) {
-      const type = Math.random() > 0.5 ? PowerUpType.TRIPLE_SHOT : PowerUpType.SHIELD;
-      powerUpsRef.current.push({
-        id: Math.random().toString(),
-        type,
-        x: Math.random() * (CANVAS_WIDTH - POWERUP_SIZE),
-        y: -POWERUP_SIZE,
-        width: POWERUP_SIZE,
-        height: POWERUP_SIZE,
-        speed: 2,
-      });
-      lastPowerUpSpawnRef.current = now;
-    }
+  // Power-up timers only reach the HUD when their rounded value changes
+  const reportEffects = () => {
+    const effects = describeEffects(worldRef.current);
+    const key = effects.map(e => `${e.type}${e.stacks}:${Math.ceil(e.remaining / EFFECT_REPORT_MS)}`).join();
+    if (key === effectsReportRef.current) return;
+    effectsReportRef.current = key;
+    events.emit({ type: 'EffectsChanged', effects });
+  };
 
-    powerUpsRef.current.forEach(p => p.y += p.speed);
-    powerUpsRef.current = powerUpsRef.current.filter(p => p.y < CANVAS_HEIGHT);
-
-    // 7. Collision Detection
-    // Bullet vs Enemy/Boss
-    bulletsRef.current.forEach(b => {
-      // Check Bosses
-      bossesRef.current.forEach(e => {
-        if (
-          b.x < e.x + e.width &&
-          b.x + b.width > e.x &&
-          b.y < e.y + e.height &&
-          b.y + b.height > e.y
-        ) {
-          e.health -= b.damage;
-          b.y = -100;
-          createExplosion(b.x, b.y, '#fff', 3);
-          
-          if (e.health <= 0) {
-            const config = BOSS_CONFIGS[levelRef.current as keyof typeof BOSS_CONFIGS] || BOSS_CONFIGS[50];
-            createExplosion(e.x + e.width / 2, e.y + e.height / 2, config.color, 50);
-            scoreRef.current += e.scoreValue;
-            onScoreUpdate(scoreRef.current);
-            e.id = 'dead'; // Mark for removal
-          }
-        }
-      });
+  const reportCombo = () => {
+    const combo = describeCombo(worldRef.current);
+    const key = `${combo.count}:${Math.ceil(combo.remaining / EFFECT_REPORT_MS)}`;
+    if (key === comboReportRef.current) return;
+    comboReportRef.current = key;
+    events.emit({ type: 'ComboChanged', combo });
+  };
 
-      // Check regular enemies
-      enemiesRef.current.forEach(e => {
-        if (
-          b.x < e.x + e.width &&
-          b.x + b.width > e.x &&
-          b.y < e.y + e.height &&
-          b.y + b.height > e.y
-        ) {
-          e.health -= b.damage;
-          b.y = -100; // Mark for removal
-          
-          if (e.health <= 0) {
-            createExplosion(e.x + e.width / 2, e.y + e.height / 2, ENEMY_CONFIGS[e.type].color);
-            scoreRef.current += e.scoreValue;
-            onScoreUpdate(scoreRef.current);
-            onAchievementUnlock('first_blood');
-            if (scoreRef.current >= 10000) onAchievementUnlock('ace');
-            
-            // Level up check (only if no boss is active)
-            if (bossesRef.current.length === 0) {
-              // Only level up by one at a time based on score threshold
-              if (scoreRef.current >= levelRef.current * 2000) {
-                const nextLevel = levelRef.current + 1;
-                // Healing logic: every 2 levels
-                if (nextLevel % 2 === 0 && nextLevel > lastLevelHealedRef.current) {
-                  if (healthRef.current < PLAYER_MAX_HEALTH) {
-                    healthRef.current += 1;
-                    onHealthUpdate(healthRef.current);
-                  }
-                  lastLevelHealedRef.current = nextLevel;
-                }
-
-                levelRef.current = nextLevel;
-                onLevelUpdate(levelRef.current);
-                if (levelRef.current === 5) onAchievementUnlock('level_up');
-              }
-            }
-          }
-        }
-      });
-    });
-    enemiesRef.current = enemiesRef.current.filter(e => e.health > 0);
-
-    // Cleanup dead bosses
-    const deadBosses = bossesRef.current.filter(b => b.id === 'dead');
-    if (deadBosses.length > 0) {
-      bossesRef.current = bossesRef.current.filter(b => b.id !== 'dead');
-      if (bossesRef.current.length === 0) {
-        // All bosses defeated
-        levelRef.current += 1;
-        onLevelUpdate(levelRef.current);
-        // Switch music back
-        bossMusicRef.current?.pause();
-        bgMusicRef.current?.play().catch(() => {});
-      }
-    }
+  const reportSpecial = () => {
+    const special = describeSpecial(worldRef.current);
+    const key = `${special.name}:${Math.ceil(special.remaining / EFFECT_REPORT_MS)}`;
+    if (key === specialReportRef.current) return;
+    specialReportRef.current = key;
+    events.emit({ type: 'SpecialChanged', special });
+  };
 
-    // Player vs Enemy/Boss/EnemyBullet
-    if (!player.invincible) {
-      // Check enemy bullets
-      bulletsRef.current.forEach(b => {
-        if (b.isEnemy) {
-          if (
-            player.x < b.x + b.width &&
-            player.x + player.width > b.x &&
-            player.y < b.y + b.height &&
-            player.y + player.height > b.y
-          ) {
-            if (player.shieldActive) {
-              player.shieldActive = false;
-            } else {
-              healthRef.current -= 1;
-              onHealthUpdate(healthRef.current);
-            }
-            player.invincible = true;
-            player.invincibleTimer = now;
-            b.y = CANVAS_HEIGHT + 100; // Remove bullet
-            createExplosion(player.x + player.width / 2, player.y + player.height / 2, '#ff0000', 20);
-          }
-        }
-      });
+  // A Time Attack clock reaches the HUD once a second
+  const reportClock = () => {
+    const remaining = timeLeft(worldRef.current);
+    const seconds = remaining === null ? null : Math.ceil(remaining / 1000);
+    if (seconds === clockReportRef.current) return;
+    clockReportRef.current = seconds;
+    events.emit({ type: 'TimeLeftChanged', ms: remaining });
+  };
 
-      // Check Bosses
-      bossesRef.current.forEach(e => {
-        if (
-          player.x < e.x + e.width &&
-          player.x + player.width > e.x &&
-          player.y < e.y + e.height &&
-          player.y + player.height > e.y
-        ) {
-          if (player.shieldActive) {
-            player.shieldActive = false;
-          } else {
-            healthRef.current -= 1;
-            onHealthUpdate(healthRef.current);
-          }
-          player.invincible = true;
-          player.invincibleTimer = now;
-          createExplosion(player.x + player.width / 2, player.y + player.height / 2, '#ff0000', 20);
-        }
-      });
+  const update = (frameMs: number) => {
+    if (gameState !== GameState.PLAYING && gameState !== GameState.REPLAY) return;
+    if (gameState === GameState.REPLAY && playbackOptionsRef.current?.paused) return;
 
-      enemiesRef.current.forEach(e => {
-        if (
-          player.x < e.x + e.width &&
-          player.x + player.width > e.x &&
-          player.y < e.y + e.height &&
-          player.y + player.height > e.y
-        ) {
-          if (player.shieldActive) {
-            player.shieldActive = false;
-            onAchievementUnlock('shield_master');
-          } else {
-            healthRef.current -= 1;
-            onHealthUpdate(healthRef.current);
-          }
-          
-          player.invincible = true;
-          player.invincibleTimer = now;
-          createExplosion(player.x + player.width / 2, player.y + player.height / 2, '#ff0000', 20);
-          e.health = 0; // Destroy enemy on impact
-        }
-      });
+    // Game rules run on a fixed step, however long the frame took
+    const speed = gameState === GameState.REPLAY ? playbackOptionsRef.current?.speed ?? 1 : 1;
+    accumulatorRef.current += frameMs * speed;
+    while (accumulatorRef.current >= TICK_MS) {
+      runTick();
+      accumulatorRef.current -= TICK_MS;
     }
+    reportEffects();
+    reportCombo();
+    reportClock();
+    reportSpecial();
 
-    // Player vs PowerUp
-    powerUpsRef.current.forEach(p => {
-      if (
-        player.x < p.x + p.width &&
-        player.x + player.width > p.x &&
-        player.y < p.y + p.height &&
-        player.y + player.height > p.y
-      ) {
-        if (p.type === PowerUpType.SHIELD) {
-          player.shieldActive = true;
-        } else {
-          player.activePowerUp = p.type;
-          player.powerUpTimer = now;
-          onAchievementUnlock('triple_threat');
-        }
-        p.y = CANVAS_HEIGHT + 100; // Mark for removal
-        createExplosion(p.x + p.width / 2, p.y + p.height / 2, '#00ff00', 10);
+    // Scenery and particles are cosmetic and move with real frame time
+    const dt = (frameMs * speed) / 1000;
+    planetsRef.current.forEach(p => {
+      p.y += p.speed * dt;
+      if (p.y > CANVAS_HEIGHT + p.size) {
+        p.y = -p.size;
+        p.x = Math.random() * CANVAS_WIDTH;
       }
     });
+    starsRef.current.forEach(s => {
+      s.y += s.speed * dt;
+      if (s.y > CANVAS_HEIGHT) s.y = 0;
+    });
 
-    // 8. Update Timers
-    if (player.invincible && now - player.invincibleTimer > 2000) {
-      player.invincible = false;
-    }
-    if (player.activePowerUp && now - player.powerUpTimer > POWERUP_DURATION) {
-      player.activePowerUp = null;
+    for (const p of particlesRef.current) {
+      p.x += p.vx * dt;
+      p.y += p.vy * dt;
+      p.life -= PARTICLE_DECAY * dt;
     }
+    removeWhere(particlesRef.current, isFaded, particlePool.release);
 
-    // 9. Particles
-    particlesRef.current.forEach(p => {
-      p.x += p.vx;
-      p.y += p.vy;
-      p.life -= 0.02;
-    });
-    particlesRef.current = particlesRef.current.filter(p => p.life > 0);
+    for (const p of popupsRef.current) {
+      p.y -= POPUP_RISE_SPEED * dt;
+      p.life -= POPUP_DECAY * dt;
+    }
+    removeWhere(popupsRef.current, isFaded);
   };
 
-  const draw = (ctx: CanvasRenderingContext2D) => {
+
+  // Position of an entity between its previous and current tick
+  const lerpX = (e: Entity, alpha: number) => e.prevX === undefined ? e.x : e.prevX + (e.x - e.prevX) * alpha;
+  const lerpY = (e: Entity, alpha: number) => e.prevY === undefined ? e.y : e.prevY + (e.y - e.prevY) * alpha;
+  const interpolate = <T extends Entity>(e: T, alpha: number): T => ({ ...e, x: lerpX(e, alpha), y: lerpY(e, alpha) });
+
+  const draw = (ctx: CanvasRenderingContext2D, alpha: number) => {
     ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
     // Draw Stars
@@ -883,7 +732,8 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.restore();
     });
 
-    const player = playerRef.current;
+    const world = worldRef.current;
+    const player = interpolate(world.player, alpha);
 
     // Draw Particles
     particlesRef.current.forEach(p => {
@@ -896,10 +746,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     ctx.globalAlpha = 1;
 
     // Draw PowerUps
-    powerUpsRef.current.forEach(p => {
+    world.powerUps.map(p => interpolate(p, alpha)).forEach(p => {
       ctx.save();
       ctx.shadowBlur = 15;
-      ctx.shadowColor = p.type === PowerUpType.SHIELD ? '#3b82f6' : '#facc15';
+      const config = p.weapon ? WEAPON_CONFIGS[p.weapon] : POWERUP_CONFIGS[p.type];
+      ctx.shadowColor = config.color;
       ctx.fillStyle = ctx.shadowColor;
       
       ctx.beginPath();
@@ -914,20 +765,27 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.font = 'bold 16px sans-serif';
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      ctx.fillText(p.type === PowerUpType.SHIELD ? 'S' : 'T', p.x + p.width / 2, p.y + p.height / 2);
+      const label = p.weapon ? p.weapon[0] : POWERUP_CONFIGS[p.type].label;
+      ctx.fillText(label, p.x + p.width / 2, p.y + p.height / 2);
       ctx.restore();
     });
 
     // Draw Bullets
-    bulletsRef.current.forEach(b => {
+    world.bullets.forEach(b => {
       ctx.save();
-      ctx.translate(b.x + b.width / 2, b.y + b.height / 2);
+      ctx.translate(lerpX(b, alpha) + b.width / 2, lerpY(b, alpha) + b.height / 2);
       ctx.rotate(b.angle);
       
-      const color = b.isEnemy ? '#ef4444' : '#3b82f6';
-      const gradient = ctx.createLinearGradient(0, -b.height / 2, 0, b.height / 2);
-      gradient.addColorStop(0, '#fff');
-      gradient.addColorStop(1, color);
+      const color = b.color ?? (b.isEnemy ? '#ef4444' : '#3b82f6');
+      // Gradients only depend on bullet height and colour, so build each one once
+      const gradientKey = `${color}:${b.height}`;
+      let gradient = bulletGradientsRef.current.get(gradientKey);
+      if (!gradient) {
+        gradient = ctx.createLinearGradient(0, -b.height / 2, 0, b.height / 2);
+        gradient.addColorStop(0, '#fff');
+        gradient.addColorStop(1, color);
+        bulletGradientsRef.current.set(gradientKey, gradient);
+      }
       
       ctx.shadowBlur = 10;
       ctx.shadowColor = color;
@@ -937,8 +795,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     });
 
     // Draw Bosses
-    bossesRef.current.forEach(e => {
-      const config = BOSS_CONFIGS[levelRef.current as keyof typeof BOSS_CONFIGS] || BOSS_CONFIGS[50];
+    world.bosses.map(e => interpolate(e, alpha)).forEach(e => {
+      const config = getBossConfig(world.bossKey);
+      const transitioning = e.invulnerableUntil > world.time;
       
       if (imagesRef.current['boss'] && imagesRef.current['boss'].complete && imagesRef.current['boss'].naturalWidth !== 0) {
         ctx.save();
@@ -968,7 +827,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
         // Boss Glow Core
         ctx.fillStyle = '#fff';
-        ctx.globalAlpha = 0.5 + Math.sin(Date.now() / 200) * 0.3;
+        ctx.globalAlpha = 0.5 + Math.sin(world.time / 200) * 0.3;
         ctx.beginPath();
         ctx.arc(0, 0, e.width * 0.1, 0, Math.PI * 2);
         ctx.fill();
@@ -976,12 +835,59 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.restore();
       }
 
+      // Phase change: the hull flashes white while it can't be hurt
+      if (transitioning) {
+        ctx.save();
+        ctx.globalAlpha = 0.3 + Math.abs(Math.sin(world.time / 80)) * 0.4;
+        ctx.fillStyle = '#fff';
+        ctx.shadowBlur = 40;
+        ctx.shadowColor = '#fff';
+        ctx.fillRect(e.x, e.y, e.width, e.height);
+        ctx.restore();
+      }
+
+      // Shield bubble while a shielding part still stands
+      if (e.parts.some(part => part.shieldsBody)) {
+        ctx.save();
+        ctx.strokeStyle = '#67e8f9';
+        ctx.globalAlpha = 0.35 + Math.sin(world.time / 250) * 0.15;
+        ctx.lineWidth = 3;
+        ctx.shadowBlur = 20;
+        ctx.shadowColor = '#67e8f9';
+        ctx.beginPath();
+        ctx.ellipse(e.x + e.width / 2, e.y + e.height / 2, e.width * 0.6, e.height * 0.6, 0, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      // Destructible parts with their own health
+      e.parts.forEach(part => {
+        const x = e.x + part.offsetX;
+        const y = e.y + part.offsetY;
+        ctx.save();
+        ctx.fillStyle = part.shieldsBody ? '#67e8f9' : '#f97316';
+        ctx.shadowBlur = 15;
+        ctx.shadowColor = ctx.fillStyle;
+        ctx.beginPath();
+        ctx.arc(x + part.width / 2, y + part.height / 2, part.width / 2, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.shadowBlur = 0;
+        ctx.fillStyle = 'rgba(0,0,0,0.5)';
+        ctx.fillRect(x, y + part.height + 2, part.width, 4);
+        ctx.fillStyle = '#f97316';
+        ctx.fillRect(x, y + part.height + 2, part.width * (part.health / part.maxHealth), 4);
+        ctx.restore();
+      });
+
       // Boss Health Bar
       ctx.save();
       ctx.fillStyle = 'rgba(255,255,255,0.1)';
       ctx.fillRect(e.x, e.y - 20, e.width, 10);
       ctx.fillStyle = '#ef4444';
       ctx.fillRect(e.x, e.y - 20, e.width * (e.health / e.maxHealth), 10);
+      // Marks where the next phases begin
+      ctx.fillStyle = '#fff';
+      config.phases.slice(1).forEach(phase => ctx.fillRect(e.x + e.width * phase.at - 1, e.y - 22, 2, 14));
       
       // Boss Name
       ctx.fillStyle = '#fff';
@@ -992,7 +898,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     });
 
     // Draw Enemies (Futuristic Tech Style)
-    enemiesRef.current.forEach(e => {
+    world.enemies.map(e => interpolate(e, alpha)).forEach(e => {
       const imgKey = `enemy_${e.type.toLowerCase()}`;
       if (imagesRef.current[imgKey] && imagesRef.current[imgKey].complete && imagesRef.current[imgKey].naturalWidth !== 0) {
         ctx.save();
@@ -1049,6 +955,21 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
           ctx.lineWidth = 1;
           ctx.stroke();
           ctx.restore();
+        } else if (e.type === EnemyType.MINELAYER) {
+          // Wide-bodied bomber with a mine bay at the tail
+          ctx.moveTo(0, -e.height/2);
+          ctx.lineTo(e.width * 0.3, -e.height * 0.2);
+          ctx.lineTo(e.width * 0.5, e.height * 0.1);
+          ctx.lineTo(e.width * 0.3, e.height * 0.5);
+          ctx.lineTo(-e.width * 0.3, e.height * 0.5);
+          ctx.lineTo(-e.width * 0.5, e.height * 0.1);
+          ctx.lineTo(-e.width * 0.3, -e.height * 0.2);
+        } else if (e.type === EnemyType.SHIELDER) {
+          // Hexagonal support drone
+          for (let i = 0; i < 6; i++) {
+            const a = (i / 6) * Math.PI * 2;
+            ctx.lineTo(Math.sin(a) * e.width / 2, Math.cos(a) * e.height / 2);
+          }
         } else {
           // Standard fighter jet (Image 1 style)
           ctx.moveTo(0, -e.height/2);
@@ -1074,6 +995,26 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.restore();
       }
 
+      // Shielder aura and the bubble it puts around protected neighbours
+      if (e.type === EnemyType.SHIELDER) {
+        ctx.save();
+        ctx.strokeStyle = 'rgba(103, 232, 249, 0.15)';
+        ctx.setLineDash([6, 8]);
+        ctx.beginPath();
+        ctx.arc(e.x + e.width / 2, e.y + e.height / 2, SHIELDER_RADIUS, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+      }
+      if (e.shielded) {
+        ctx.save();
+        ctx.strokeStyle = 'rgba(103, 232, 249, 0.7)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(e.x + e.width / 2, e.y + e.height / 2, Math.max(e.width, e.height) * 0.7, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+      }
+
       // Enemy Health Bar
       ctx.save();
       ctx.fillStyle = 'rgba(255,255,255,0.1)';
@@ -1083,74 +1024,49 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.restore();
     });
 
-    // Draw Player (Detailed Ship from Image)
-    if (!player.invincible || Math.floor(Date.now() / 100) % 2 === 0) {
-      if (imagesRef.current['player'] && imagesRef.current['player'].complete && imagesRef.current['player'].naturalWidth !== 0) {
-        ctx.drawImage(imagesRef.current['player'], player.x, player.y, player.width, player.height);
-      } else {
-        ctx.save();
-        ctx.translate(player.x + player.width / 2, player.y + player.height / 2);
-        
-        // Shadow
-        ctx.shadowBlur = 20;
-        ctx.shadowColor = 'rgba(59, 130, 246, 0.5)';
-        
-        // Main Body (White/Grey)
-        ctx.fillStyle = '#f8fafc';
-        ctx.beginPath();
-        ctx.moveTo(0, -player.height / 2); // Nose
-        ctx.lineTo(player.width * 0.15, -player.height * 0.1);
-        ctx.lineTo(player.width * 0.15, player.height * 0.4);
-        ctx.lineTo(0, player.height * 0.5); // Tail
-        ctx.lineTo(-player.width * 0.15, player.height * 0.4);
-        ctx.lineTo(-player.width * 0.15, -player.height * 0.1);
-        ctx.closePath();
-        ctx.fill();
-        
-        // Cockpit (Dark Glass)
-        ctx.fillStyle = '#0f172a';
-        ctx.beginPath();
-        ctx.ellipse(0, -player.height * 0.1, player.width * 0.1, player.height * 0.2, 0, 0, Math.PI * 2);
-        ctx.fill();
-        
-        // Wings (Outer)
-        ctx.fillStyle = '#e2e8f0';
-        ctx.beginPath();
-        ctx.moveTo(player.width * 0.15, -player.height * 0.1);
-        ctx.lineTo(player.width * 0.5, player.height * 0.3);
-        ctx.lineTo(player.width * 0.5, player.height * 0.5);
-        ctx.lineTo(player.width * 0.15, player.height * 0.4);
-        ctx.closePath();
-        ctx.fill();
-        
-        ctx.beginPath();
-        ctx.moveTo(-player.width * 0.15, -player.height * 0.1);
-        ctx.lineTo(-player.width * 0.5, player.height * 0.3);
-        ctx.lineTo(-player.width * 0.5, player.height * 0.5);
-        ctx.lineTo(-player.width * 0.15, player.height * 0.4);
-        ctx.closePath();
-        ctx.fill();
-        
-        // Engines (Glow)
-        const engineGlow = ctx.createRadialGradient(0, player.height * 0.5, 0, 0, player.height * 0.5, 20);
-        engineGlow.addColorStop(0, '#3b82f6');
-        engineGlow.addColorStop(1, 'transparent');
-        ctx.fillStyle = engineGlow;
-        ctx.beginPath();
-        ctx.arc(0, player.height * 0.5, 15, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.restore();
-      }
+    // Warn of enemies about to fly in from the sides or bottom
+    const pulse = 0.5 + 0.5 * Math.sin(world.time / 120);
+    world.enemies.forEach(e => {
+      if (e.entered || e.entry === 'top') return;
+      if (e.x + e.width > 0 && e.x < CANVAS_WIDTH && e.y + e.height > 0 && e.y < CANVAS_HEIGHT) return;
+      // Pinned to the entry edge, level with the enemy and pointing out toward it
+      const x = e.entry === 'left' ? 16 : e.entry === 'right' ? CANVAS_WIDTH - 16 : Math.max(16, Math.min(CANVAS_WIDTH - 16, e.x + e.width / 2));
+      const y = e.entry === 'bottom' ? CANVAS_HEIGHT - 16 : Math.max(16, Math.min(CANVAS_HEIGHT - 16, e.y + e.height / 2));
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate(e.entry === 'left' ? -Math.PI / 2 : e.entry === 'right' ? Math.PI / 2 : Math.PI);
+      ctx.globalAlpha = 0.4 + 0.6 * pulse;
+      ctx.fillStyle = '#ef4444';
+      ctx.shadowBlur = 10;
+      ctx.shadowColor = '#ef4444';
+      ctx.beginPath();
+      ctx.moveTo(0, -12);
+      ctx.lineTo(10, 6);
+      ctx.lineTo(-10, 6);
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+    });
+
+    // Draw Player
+    if (!player.invincible || Math.floor(world.time / 100) % 2 === 0) {
+      ctx.save();
+      ctx.translate(player.x + player.width / 2, player.y + player.height / 2);
+      drawShip(ctx, SHIP_CONFIGS[player.ship].art, player.width, player.height);
+      ctx.restore();
 
       // Shield
-      if (player.shieldActive) {
+      if (player.shieldCharges > 0) {
         ctx.save();
         ctx.strokeStyle = '#3b82f6';
         ctx.lineWidth = 3;
         ctx.setLineDash([5, 5]);
-        ctx.beginPath();
-        ctx.arc(player.x + player.width / 2, player.y + player.height / 2, player.width * 0.8, 0, Math.PI * 2);
-        ctx.stroke();
+        // One ring per charge
+        for (let i = player.shieldCharges - 1; i >= 0; i--) {
+          ctx.beginPath();
+          ctx.arc(player.x + player.width / 2, player.y + player.height / 2, player.width * (0.8 + i * 0.15), 0, Math.PI * 2);
+          ctx.stroke();
+        }
         ctx.shadowBlur = 30;
         ctx.globalAlpha = 0.2;
         ctx.fillStyle = '#3b82f6';
@@ -1159,13 +1075,51 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.restore();
       }
     }
+
+    // Bonus popups
+    ctx.save();
+    ctx.font = 'bold 18px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#facc15';
+    ctx.shadowBlur = 8;
+    ctx.shadowColor = '#facc15';
+    popupsRef.current.forEach(p => {
+      ctx.globalAlpha = Math.max(0, p.life);
+      ctx.fillText(p.text, p.x, p.y);
+    });
+    ctx.restore();
+  };
+
+  const recordBenchmarkFrame = (updateMs: number, drawMs: number, time: number) => {
+    const timings = benchmarkTimingsRef.current;
+    if (!timings.since) timings.since = time;
+    timings.update.push(updateMs);
+    timings.draw.push(drawMs);
+    if (time - timings.since < BENCHMARK_REPORT_MS) return;
+
+    const world = worldRef.current;
+    onBenchmarkSample({
+      update: summarizeTimings(timings.update),
+      draw: summarizeTimings(timings.draw),
+      fps: (timings.draw.length * 1000) / (time - timings.since),
+      bullets: world.bullets.length,
+      enemies: world.enemies.length + world.bosses.length,
+    });
+    benchmarkTimingsRef.current = { update: [], draw: [], since: time };
   };
 
   const loop = useCallback((time: number) => {
     const ctx = canvasRef.current?.getContext('2d');
+    const frameMs = lastFrameTimeRef.current ? Math.min(time - lastFrameTimeRef.current, MAX_FRAME_MS) : 0;
+    lastFrameTimeRef.current = time;
     if (ctx) {
-      update(16); // Fixed dt for simplicity
-      draw(ctx);
+      const updateStart = performance.now();
+      update(frameMs);
+      const drawStart = performance.now();
+      draw(ctx, accumulatorRef.current / TICK_MS);
+      if (benchmarkRef.current && gameState === GameState.PLAYING) {
+        recordBenchmarkFrame(drawStart - updateStart, performance.now() - drawStart, time);
+      }
     }
     requestRef.current = requestAnimationFrame(loop);
   }, [gameState]);
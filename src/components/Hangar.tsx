@@ -0,0 +1,114 @@
+import React, { useEffect, useRef } from 'react';
+import { Lock, Rocket, X } from 'lucide-react';
+import { Difficulty, ShipType, ShipUnlock, UpgradeLevels } from '../types';
+import { ACHIEVEMENTS_LIST, SHIP_CONFIGS, WEAPON_CONFIGS } from '../constants';
+import { SHIP_TYPES, shipMaxHealth } from '../engine/ships';
+import { drawShip } from './shipArt';
+
+interface HangarProps {
+  ship: ShipType;
+  unlocked: ShipType[];
+  difficulty: Difficulty;
+  upgrades: UpgradeLevels; // the hull upgrade shows in each ship's health
+  onSelect: (ship: ShipType) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = 96;
+
+// Stat bars are drawn against the best value in the hangar
+const MAX_SPEED = Math.max(...SHIP_TYPES.map(ship => SHIP_CONFIGS[ship].speed));
+const MAX_SIZE = Math.max(...SHIP_TYPES.map(ship => SHIP_CONFIGS[ship].size));
+
+const describeUnlock = (unlock: ShipUnlock) => {
+  if ('score' in unlock) return `单局得分达到 ${unlock.score.toLocaleString()}`;
+  const achievement = ACHIEVEMENTS_LIST.find(a => a.id === unlock.achievement);
+  return `解锁成就「${achievement?.title ?? unlock.achievement}」`;
+};
+
+const ShipPreview: React.FC<{ ship: ShipType }> = ({ ship }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const config = SHIP_CONFIGS[ship];
+    // Drawn to scale, so a bigger hitbox shows as a bigger ship
+    const scale = (PREVIEW_SIZE * 0.6) / MAX_SIZE;
+    ctx.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+    ctx.save();
+    ctx.translate(PREVIEW_SIZE / 2, PREVIEW_SIZE / 2);
+    drawShip(ctx, config.art, config.size * scale * 1.4, config.size * scale * 1.4);
+    ctx.restore();
+  }, [ship]);
+
+  return <canvas ref={canvasRef} width={PREVIEW_SIZE} height={PREVIEW_SIZE} />;
+};
+
+const StatBar: React.FC<{ label: string; value: number; color: string }> = ({ label, value, color }) => (
+  <div className="flex items-center gap-2 text-[10px] text-gray-400">
+    <span className="w-8 shrink-0">{label}</span>
+    <div className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+      <div className="h-full rounded-full" style={{ width: `${value * 100}%`, backgroundColor: color }} />
+    </div>
+  </div>
+);
+
+const Hangar: React.FC<HangarProps> = ({ ship, unlocked, difficulty, upgrades, onSelect, onClose }) => (
+  <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-lg flex items-center justify-center p-6">
+    <div className="glass-card p-8 w-full max-w-3xl relative max-h-[85vh] flex flex-col">
+      <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+        <X size={24} />
+      </button>
+      <h2 className="text-3xl font-black italic tracking-tighter mb-6 flex items-center gap-3 text-sky-400">
+        <Rocket size={32} /> 机库
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 overflow-y-auto pr-4 custom-scrollbar">
+        {SHIP_TYPES.map(type => {
+          const config = SHIP_CONFIGS[type];
+          const available = unlocked.includes(type);
+          const selected = type === ship;
+          return (
+            <button
+              key={type}
+              onClick={() => available && onSelect(type)}
+              disabled={!available}
+              className={`p-4 rounded-2xl border text-left flex gap-4 transition-all ${
+                selected
+                  ? 'bg-sky-500/10 border-sky-400/60 shadow-[0_0_20px_rgba(56,189,248,0.15)]'
+                  : available
+                    ? 'bg-white/5 border-white/10 hover:bg-white/10'
+                    : 'bg-white/5 border-white/10 opacity-50 cursor-not-allowed'
+              }`}
+            >
+              <div className={`shrink-0 rounded-xl bg-black/40 ${available ? '' : 'grayscale'}`}>
+                <ShipPreview ship={type} />
+              </div>
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="font-bold text-lg leading-tight">{config.name}</span>
+                  {selected && <span className="text-[10px] font-bold text-sky-400 uppercase tracking-widest">出击</span>}
+                  {!available && <Lock size={14} className="text-gray-500" />}
+                </div>
+                <p className="text-xs text-gray-400 leading-relaxed">{config.description}</p>
+                <StatBar label="速度" value={config.speed / MAX_SPEED} color="#38bdf8" />
+                <StatBar label="体积" value={config.size / MAX_SIZE} color="#f97316" />
+                <div className="text-[10px] text-gray-400 flex flex-wrap gap-x-3">
+                  <span>耐久 <span className="text-red-400 font-bold">{shipMaxHealth(type, difficulty, upgrades)}</span></span>
+                  <span style={{ color: WEAPON_CONFIGS[config.weapon].color }}>{WEAPON_CONFIGS[config.weapon].name}</span>
+                  <span className="text-green-400">{config.specialName} · {config.cooldown / 1000}s</span>
+                </div>
+                {!available && config.unlock && (
+                  <div className="text-[10px] text-yellow-500">{describeUnlock(config.unlock)}</div>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      <p className="mt-6 text-xs text-gray-500">按 E 或 Shift 发动战机专属技能，技能冷却后可再次使用。</p>
+    </div>
+  </div>
+);
+
+export default Hangar;
@@ -0,0 +1,570 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Copy, Download, FilePlus, FlaskConical, Plus, Trash2, Upload, X } from 'lucide-react';
+import { EnemyType, EntryEdge, FormationShape, LevelScript, WaveSpawn } from '../types';
+import {
+  BOSS_CONFIGS,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  ENEMY_CONFIGS,
+  ENEMY_NAMES,
+  ENTRY_DIRECTIONS,
+  FORMATION_RING_RADIUS
+} from '../constants';
+import { listLevelScripts, parseLevelFile, parseLevelScript, serializeLevelScript } from '../engine/levels';
+import { LevelPlaytest } from '../engine/playtest';
+import { listBehaviours } from '../engine/behaviours';
+import { ENTRY_EDGES, FORMATION_SHAPES, entryPoint, formationSlots } from '../engine/formations';
+
+interface LevelEditorProps {
+  onPlaytest: (playtest: LevelPlaytest) => void;
+  onClose: () => void;
+}
+
+const ENEMY_TYPES = Object.values(EnemyType);
+// Behaviours registered without a name here are listed by their key
+const BEHAVIOUR_NAMES: Record<string, string> = {
+  descend: '直线下落',
+  sine: '正弦扫射',
+  zigzag: '之字折返',
+  swoop: '俯冲',
+  kamikaze: '自杀追击',
+  hover: '悬停后撤',
+  spline: '样条航线',
+  minelayer: '布雷航线',
+  shielder: '护盾支援',
+  strafe: '直线穿越',
+  snake: '蛇形编队',
+  orbit: '环形编队',
+};
+const ENTRY_NAMES: Record<EntryEdge, string> = { top: '上方', left: '左侧', right: '右侧', bottom: '下方' };
+const FORMATION_NAMES: Record<FormationShape, string> = { v: 'V 字', line: '横排', circle: '圆环', snake: '长蛇' };
+const TIMELINE_SNAP = 50; // ms
+const TIMELINE_ROW = 24; // px per enemy type
+
+const createDraft = (): LevelScript => ({
+  level: 1,
+  name: '新关卡',
+  length: 15000,
+  loop: true,
+  waves: [],
+});
+
+// When the last member of the group spawns, i.e. when its formation is complete
+const waveEnd = (wave: WaveSpawn) => wave.at + (wave.count - 1) * (wave.interval ?? 0);
+
+const isVertical = (entry: EntryEdge) => entry === 'top' || entry === 'bottom';
+
+// The coordinate a wave is placed by: x for the top and bottom edges, y for the sides
+const waveAlong = (wave: WaveSpawn) => (isVertical(wave.entry ?? 'top') ? wave.x : wave.y ?? 0);
+
+/**
+ * Where each member of a wave starts and how many ms after the wave it sets
+ * off, placed the way the game places them. Snake members are treated as
+ * setting off late rather than trailing behind, and circles as not turning,
+ * which is close enough for a preview.
+ */
+const memberStarts = (wave: WaveSpawn) => {
+  const config = ENEMY_CONFIGS[wave.enemy];
+  const entry = wave.entry ?? 'top';
+  if (wave.formation) {
+    return formationSlots(wave.formation, wave.count, entry, waveAlong(wave), config.width, config.height).map(slot => {
+      if (slot.behaviour === 'orbit') {
+        return {
+          x: slot.x + FORMATION_RING_RADIUS * Math.cos(slot.slot),
+          y: slot.y + FORMATION_RING_RADIUS * Math.sin(slot.slot),
+          delay: 0,
+        };
+      }
+      return { x: slot.x, y: slot.y, delay: slot.behaviour === 'snake' ? slot.slot : 0 };
+    });
+  }
+  const limit = isVertical(entry) ? CANVAS_WIDTH - config.width : CANVAS_HEIGHT - config.height;
+  return Array.from({ length: wave.count }, (_, member) => {
+    const along = Math.max(0, Math.min(limit, waveAlong(wave) + member * (wave.spacing ?? 0)));
+    return { ...entryPoint(entry, along, config.width, config.height), delay: member * (wave.interval ?? 0) };
+  });
+};
+
+const NumberField: React.FC<{
+  label: string;
+  value: number | undefined;
+  step?: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, step = 1, onChange }) => (
+  <label className="flex flex-col gap-1 text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+    {label}
+    <input
+      type="number"
+      step={step}
+      value={value ?? ''}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white font-mono normal-case tracking-normal"
+    />
+  </label>
+);
+
+/**
+ * Authoring view for level scripts: a spawn timeline with a playhead, a
+ * to-scale preview of the field at the playhead where groups can be dragged
+ * into place, and file save/load in the same JSON format the game bundles.
+ */
+const LevelEditor: React.FC<LevelEditorProps> = ({ onPlaytest, onClose }) => {
+  const [draft, setDraft] = useState<LevelScript>(createDraft);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<
+    | { kind: 'playhead' }
+    | { kind: 'wave'; index: number; grabOffset: number }
+    | { kind: 'member'; index: number; member: number; grabOffset: number }
+    | null
+  >(null);
+
+  const validation = useMemo(() => {
+    try {
+      return { script: parseLevelScript(draft), error: null };
+    } catch (err) {
+      return { script: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [draft]);
+
+  const selectedWave = selected !== null ? draft.waves[selected] : null;
+
+  const updateDraft = (changes: Partial<LevelScript>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateWave = (index: number, changes: Partial<WaveSpawn>) => {
+    setDraft(prev => ({
+      ...prev,
+      waves: prev.waves.map((wave, i) => (i === index ? { ...wave, ...changes } : wave)),
+    }));
+  };
+
+  const selectWave = (index: number) => {
+    setSelected(index);
+    setCursor(waveEnd(draft.waves[index]));
+  };
+
+  const addWave = () => {
+    const wave: WaveSpawn = { at: Math.round(cursor), enemy: EnemyType.BASIC, count: 3, x: 380, spacing: 0, interval: 400 };
+    setDraft(prev => ({ ...prev, waves: [...prev.waves, wave] }));
+    setSelected(draft.waves.length);
+  };
+
+  const duplicateWave = (index: number) => {
+    const copy = { ...draft.waves[index], at: Math.min(draft.length - 1, draft.waves[index].at + 1000) };
+    setDraft(prev => ({ ...prev, waves: [...prev.waves, copy] }));
+    setSelected(draft.waves.length);
+  };
+
+  const deleteWave = (index: number) => {
+    setDraft(prev => ({ ...prev, waves: prev.waves.filter((_, i) => i !== index) }));
+    setSelected(null);
+  };
+
+  const loadScript = (script: LevelScript) => {
+    setDraft(script);
+    setSelected(null);
+    setCursor(0);
+    setFileError(null);
+  };
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadScript(parseLevelFile(await file.text()));
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : '无法读取关卡文件');
+    }
+  };
+
+  const saveFile = () => {
+    if (!validation.script) return;
+    const blob = new Blob([serializeLevelScript(validation.script)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `level-${validation.script.level.toString().padStart(2, '0')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Timeline: pointer x -> ms, snapped
+  const timelineTime = (clientX: number) => {
+    const rect = timelineRef.current!.getBoundingClientRect();
+    const t = ((clientX - rect.left) / rect.width) * draft.length;
+    return Math.max(0, Math.min(draft.length - 1, Math.round(t / TIMELINE_SNAP) * TIMELINE_SNAP));
+  };
+
+  // Preview: pointer -> canvas pixels along the axis the wave is placed by
+  const previewAlong = (e: React.PointerEvent, wave: WaveSpawn) => {
+    const rect = previewRef.current!.getBoundingClientRect();
+    return isVertical(wave.entry ?? 'top')
+      ? ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH
+      : ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT;
+  };
+
+  const setWaveAlong = (index: number, along: number) => {
+    const wave = draft.waves[index];
+    updateWave(index, isVertical(wave.entry ?? 'top') ? { x: along } : { y: along });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'playhead') {
+      setCursor(timelineTime(e.clientX));
+    } else if (drag.kind === 'wave') {
+      updateWave(drag.index, { at: Math.max(0, timelineTime(e.clientX) - drag.grabOffset) });
+    } else {
+      const wave = draft.waves[drag.index];
+      const limit = isVertical(wave.entry ?? 'top') ? CANVAS_WIDTH : CANVAS_HEIGHT;
+      const along = Math.round(Math.max(0, Math.min(limit, previewAlong(e, wave) - drag.grabOffset)));
+      // The lead enemy, or any member of a formation, moves the whole group; other members set the spacing
+      if (drag.member === 0 || wave.formation) {
+        setWaveAlong(drag.index, along);
+      } else {
+        updateWave(drag.index, { spacing: Math.round((along - waveAlong(wave)) / drag.member) });
+      }
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  // Every enemy on the field at the playhead, placed where it would be at that moment
+  const previewEnemies = draft.waves.flatMap((wave, index) => {
+    const config = ENEMY_CONFIGS[wave.enemy];
+    const speed = config.speed + draft.level * 18;
+    const direction = ENTRY_DIRECTIONS[wave.entry ?? 'top'];
+    return memberStarts(wave).map((start, member) => {
+      const spawnedAt = wave.at + start.delay;
+      const travelled = Math.max(0, (cursor - spawnedAt) / 1000) * speed;
+      const x = start.x + direction.x * travelled;
+      const y = start.y + direction.y * travelled;
+      return {
+        key: `${index}_${member}`,
+        index,
+        member,
+        x,
+        y,
+        width: config.width,
+        height: config.height,
+        color: config.color,
+        visible:
+          cursor >= spawnedAt &&
+          x + config.width > 0 &&
+          x < CANVAS_WIDTH &&
+          y + config.height > 0 &&
+          y < CANVAS_HEIGHT,
+      };
+    }).filter(enemy => enemy.visible || index === selected);
+  });
+
+  const secondMarks = Array.from({ length: Math.floor(draft.length / 1000) + 1 }, (_, i) => i * 1000);
+
+  return (
+    <aside
+      className="flex flex-col w-full lg:w-[26rem] shrink-0 gap-4 overflow-y-auto custom-scrollbar"
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerLeave={endDrag}
+    >
+      <div className="glass-card p-4 flex flex-col gap-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-blue-400">关卡编辑器</h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <button
+            onClick={() => loadScript(createDraft())}
+            className="py-2 glass-card rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-white/10 transition-colors"
+          >
+            <FilePlus size={14} /> 新建
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="py-2 glass-card rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-white/10 transition-colors"
+          >
+            <Upload size={14} /> 打开
+          </button>
+          <button
+            onClick={saveFile}
+            disabled={!validation.script}
+            className="py-2 glass-card rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-white/10 transition-colors disabled:opacity-30"
+          >
+            <Download size={14} /> 保存
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={openFile} />
+        </div>
+        <select
+          value=""
+          onChange={(e) => {
+            const script = listLevelScripts().find(s => s.level === Number(e.target.value));
+            if (script) loadScript(structuredClone(script));
+          }}
+          className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm"
+        >
+          <option value="">载入内置关卡...</option>
+          {listLevelScripts().map(script => (
+            <option key={script.level} value={script.level}>
+              第 {script.level} 关 · {script.name}
+            </option>
+          ))}
+        </select>
+        {fileError && <p className="text-xs text-red-400">{fileError}</p>}
+
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField label="关卡" value={draft.level} onChange={(level) => updateDraft({ level })} />
+          <NumberField label="时长 (ms)" value={draft.length} step={500} onChange={(length) => updateDraft({ length })} />
+          <label className="flex flex-col gap-1 text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+            循环
+            <input
+              type="checkbox"
+              checked={draft.loop}
+              onChange={(e) => updateDraft({ loop: e.target.checked })}
+              className="h-6 accent-blue-500"
+            />
+          </label>
+        </div>
+        <label className="flex flex-col gap-1 text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+          名称
+          <input
+            value={draft.name ?? ''}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white normal-case tracking-normal"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+          关底首领
+          <select
+            value={draft.boss ?? ''}
+            onChange={(e) => updateDraft({ boss: e.target.value ? Number(e.target.value) : undefined })}
+            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white normal-case tracking-normal"
+          >
+            <option value="">无</option>
+            {Object.entries(BOSS_CONFIGS).map(([key, config]) => (
+              <option key={key} value={key}>
+                {config.name} ({key})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Timeline */}
+      <div className="glass-card p-4 flex flex-col gap-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="font-bold">时间轴</span>
+          <span className="font-mono text-gray-400">{(cursor / 1000).toFixed(2)}s</span>
+        </div>
+        <div
+          ref={timelineRef}
+          className="relative h-40 bg-black/40 rounded-lg border border-white/10 cursor-crosshair select-none touch-none"
+          onPointerDown={(e) => {
+            dragRef.current = { kind: 'playhead' };
+            setCursor(timelineTime(e.clientX));
+          }}
+        >
+          {secondMarks.map(t => (
+            <div
+              key={t}
+              className="absolute top-0 bottom-0 w-px bg-white/5"
+              style={{ left: `${(t / draft.length) * 100}%` }}
+            />
+          ))}
+          {draft.waves.map((wave, index) => (
+            <div
+              key={index}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                selectWave(index);
+                dragRef.current = { kind: 'wave', index, grabOffset: timelineTime(e.clientX) - wave.at };
+              }}
+              className={`absolute h-5 min-w-2 rounded cursor-grab border ${
+                index === selected ? 'border-white' : 'border-transparent'
+              }`}
+              style={{
+                left: `${(wave.at / draft.length) * 100}%`,
+                width: `${((waveEnd(wave) - wave.at) / draft.length) * 100}%`,
+                top: 6 + ENEMY_TYPES.indexOf(wave.enemy) * TIMELINE_ROW,
+                backgroundColor: ENEMY_CONFIGS[wave.enemy].color,
+              }}
+              title={`${ENEMY_NAMES[wave.enemy]} ×${wave.count}`}
+            />
+          ))}
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
+            style={{ left: `${(cursor / draft.length) * 100}%` }}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={addWave}
+            className="py-2 glass-card rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-white/10 transition-colors"
+          >
+            <Plus size={14} /> 在此添加波次
+          </button>
+          <button
+            onClick={() => validation.script && onPlaytest({ script: validation.script, from: cursor })}
+            disabled={!validation.script}
+            className="py-2 bg-red-600 rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-red-500 transition-colors disabled:opacity-30"
+          >
+            <FlaskConical size={14} /> 从此处试玩
+          </button>
+        </div>
+        {validation.error && <p className="text-xs text-red-400 break-all">{validation.error}</p>}
+      </div>
+
+      {/* Field preview at the playhead */}
+      <div className="glass-card p-4">
+        <svg
+          ref={previewRef}
+          viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+          className="w-full bg-black/60 rounded-lg border border-white/10 touch-none select-none"
+        >
+          {previewEnemies.map(enemy => (
+            <rect
+              key={enemy.key}
+              x={Math.max(0, Math.min(CANVAS_WIDTH - enemy.width, enemy.x))}
+              y={Math.max(0, Math.min(CANVAS_HEIGHT - enemy.height, enemy.y))}
+              width={enemy.width}
+              height={enemy.height}
+              fill={enemy.color}
+              opacity={enemy.index === selected ? (enemy.visible ? 1 : 0.35) : 0.4}
+              stroke={enemy.index === selected ? '#fff' : 'none'}
+              strokeWidth={3}
+              className="cursor-grab"
+              onPointerDown={(e) => {
+                selectWave(enemy.index);
+                const wave = draft.waves[enemy.index];
+                const spacing = wave.formation ? 0 : enemy.member * (wave.spacing ?? 0);
+                dragRef.current = {
+                  kind: 'member',
+                  index: enemy.index,
+                  member: enemy.member,
+                  grabOffset: previewAlong(e, wave) - (waveAlong(wave) + spacing),
+                };
+              }}
+            />
+          ))}
+        </svg>
+      </div>
+
+      {/* Selected wave */}
+      {selectedWave && selected !== null && (
+        <div className="glass-card p-4 flex flex-col gap-3">
+          <div className="grid grid-cols-3 gap-1">
+            {ENEMY_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => updateWave(selected, { enemy: type })}
+                className={`py-2 rounded-lg text-xs font-bold border transition-colors ${
+                  selectedWave.enemy === type ? 'border-white bg-white/10' : 'border-white/10 hover:bg-white/5'
+                }`}
+                style={{ color: ENEMY_CONFIGS[type].color }}
+              >
+                {ENEMY_NAMES[type]}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField label="时间 (ms)" value={selectedWave.at} step={TIMELINE_SNAP} onChange={(at) => updateWave(selected, { at })} />
+            <NumberField label="数量" value={selectedWave.count} onChange={(count) => updateWave(selected, { count })} />
+            {isVertical(selectedWave.entry ?? 'top') ? (
+              <NumberField label="X" value={selectedWave.x} onChange={(x) => updateWave(selected, { x })} />
+            ) : (
+              <NumberField label="Y" value={selectedWave.y ?? 0} onChange={(y) => updateWave(selected, { y })} />
+            )}
+            <NumberField label="间距 (px)" value={selectedWave.spacing} onChange={(spacing) => updateWave(selected, { spacing })} />
+            <NumberField label="间隔 (ms)" value={selectedWave.interval} step={TIMELINE_SNAP} onChange={(interval) => updateWave(selected, { interval })} />
+            <NumberField
+              label="血量倍率"
+              value={selectedWave.healthScale ?? 1}
+              step={0.1}
+              onChange={(healthScale) => updateWave(selected, { healthScale })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col gap-1 text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+              入场
+              <select
+                value={selectedWave.entry ?? 'top'}
+                onChange={(e) => {
+                  const entry = e.target.value as EntryEdge;
+                  updateWave(selected, { entry: entry === 'top' ? undefined : entry, y: isVertical(entry) ? undefined : selectedWave.y ?? 200 });
+                }}
+                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white normal-case tracking-normal"
+              >
+                {ENTRY_EDGES.map(edge => (
+                  <option key={edge} value={edge}>
+                    {ENTRY_NAMES[edge]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+              编队
+              <select
+                value={selectedWave.formation ?? ''}
+                onChange={(e) => updateWave(selected, { formation: (e.target.value || undefined) as FormationShape | undefined })}
+                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white normal-case tracking-normal"
+              >
+                <option value="">无</option>
+                {FORMATION_SHAPES.map(shape => (
+                  <option key={shape} value={shape}>
+                    {FORMATION_NAMES[shape]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+            行为
+            <select
+              value={selectedWave.behaviour ?? ''}
+              onChange={(e) => updateWave(selected, { behaviour: e.target.value || undefined })}
+              className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white normal-case tracking-normal"
+            >
+              <option value="">
+                默认 ({BEHAVIOUR_NAMES[ENEMY_CONFIGS[selectedWave.enemy].behaviour] ?? ENEMY_CONFIGS[selectedWave.enemy].behaviour})
+              </option>
+              {listBehaviours().map(id => (
+                <option key={id} value={id}>
+                  {BEHAVIOUR_NAMES[id] ?? id}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => duplicateWave(selected)}
+              className="py-2 glass-card rounded-xl font-bold text-xs flex items-center justify-center gap-1 hover:bg-white/10 transition-colors"
+            >
+              <Copy size={14} /> 复制
+            </button>
+            <button
+              onClick={() => deleteWave(selected)}
+              className="py-2 glass-card rounded-xl font-bold text-xs text-red-400 flex items-center justify-center gap-1 hover:bg-white/10 transition-colors"
+            >
+              <Trash2 size={14} /> 删除
+            </button>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default LevelEditor;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { BarChart3, X } from 'lucide-react';
+import { EnemyType, HitSource, LifetimeStats, RunHistoryEntry } from '../types';
+import { BOSS_CONFIGS, ENEMY_CONFIGS, ENEMY_NAMES, GAME_MODES, RUN_HISTORY_LENGTH } from '../constants';
+import { BOSS_LEVELS } from '../engine/modes';
+
+interface StatsScreenProps {
+  lifetime: LifetimeStats;
+  history: RunHistoryEntry[];
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 100;
+
+const DAMAGE_SOURCES: Record<HitSource, string> = {
+  bullet: '敌方子弹',
+  enemy: '敌机撞击',
+  boss: '首领撞击',
+};
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}小时${minutes % 60}分`;
+  return `${minutes}分${Math.floor((ms % 60000) / 1000)}秒`;
+};
+
+const Tile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-4 rounded-2xl bg-white/5 border border-white/10">
+    <div className="text-[10px] text-gray-500 uppercase tracking-widest">{label}</div>
+    <div className="text-2xl font-black mt-1">{value}</div>
+  </div>
+);
+
+// One value per run, oldest on the left; the y axis runs from zero to the best of them
+const TrendChart: React.FC<{ title: string; values: number[]; color: string }> = ({ title, values, color }) => {
+  const max = Math.max(1, ...values);
+  const x = (i: number) => (values.length > 1 ? (i / (values.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2);
+  const y = (value: number) => CHART_HEIGHT - (value / max) * (CHART_HEIGHT - 8) - 4;
+  const points = values.map((value, i) => `${x(i)},${y(value)}`).join(' ');
+  return (
+    <div className="p-4 rounded-2xl bg-white/5 border border-white/10">
+      <div className="flex items-center justify-between text-xs mb-2">
+        <span className="font-bold">{title}</span>
+        <span className="text-gray-500">最高 {max.toLocaleString()}</span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-24">
+        <line x1={0} y1={CHART_HEIGHT - 4} x2={CHART_WIDTH} y2={CHART_HEIGHT - 4} stroke="rgba(255,255,255,0.1)" />
+        <polyline points={points} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+        {values.map((value, i) => (
+          <circle key={i} cx={x(i)} cy={y(value)} r={2.5} fill={color} />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ lifetime, history, onClose }) => {
+  const { totals, bests } = lifetime;
+  const accuracy = totals.shots > 0 ? `${((totals.hits / totals.shots) * 100).toFixed(1)}%` : '—';
+  const lastRun = history[history.length - 1];
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-lg flex items-center justify-center p-6">
+      <div className="glass-card p-8 w-full max-w-3xl relative max-h-[85vh] flex flex-col">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <X size={24} />
+        </button>
+        <h2 className="text-3xl font-black italic tracking-tighter mb-6 flex items-center gap-3 text-emerald-400">
+          <BarChart3 size={32} /> 生涯统计
+        </h2>
+        <div className="overflow-y-auto pr-4 custom-scrollbar space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Tile label="对局数" value={lifetime.runs.toLocaleString()} />
+            <Tile label="游戏时长" value={formatDuration(totals.survived)} />
+            <Tile label="击毁敌机" value={totals.kills.toLocaleString()} />
+            <Tile label="最高关卡" value={bests.level.toLocaleString()} />
+            <Tile label="发射子弹" value={totals.shots.toLocaleString()} />
+            <Tile label="命中率" value={accuracy} />
+            <Tile label="拾取道具" value={totals.powerUps.toLocaleString()} />
+            <Tile label="损失战机" value={totals.deaths.toLocaleString()} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="p-4 rounded-2xl bg-white/5 border border-white/10">
+              <h3 className="font-bold text-sm mb-3">各类敌机击毁数</h3>
+              <div className="space-y-1.5 text-xs">
+                {Object.values(EnemyType).map(enemy => (
+                  <div key={enemy} className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ENEMY_CONFIGS[enemy].color }} />
+                      {ENEMY_NAMES[enemy]}
+                    </span>
+                    <span className="font-mono">{lifetime.enemyKills[enemy].toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+              <h3 className="font-bold text-sm mt-5 mb-3">承受伤害来源</h3>
+              <div className="space-y-1.5 text-xs">
+                {(Object.keys(DAMAGE_SOURCES) as HitSource[]).map(source => (
+                  <div key={source} className="flex items-center justify-between">
+                    <span>{DAMAGE_SOURCES[source]}</span>
+                    <span className="font-mono text-red-400">{lifetime.damage[source].toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="p-4 rounded-2xl bg-white/5 border border-white/10">
+              <h3 className="font-bold text-sm mb-3">首领战绩</h3>
+              <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 gap-y-1.5 text-xs">
+                <span className="text-gray-500">首领</span>
+                <span className="text-gray-500 text-right">击败</span>
+                <span className="text-gray-500 text-right">阵亡</span>
+                {BOSS_LEVELS.map(boss => (
+                  <React.Fragment key={boss}>
+                    <span className="truncate">{BOSS_CONFIGS[boss].name}</span>
+                    <span className="font-mono text-right text-green-400">{lifetime.bossRecords[boss]?.kills ?? 0}</span>
+                    <span className="font-mono text-right text-red-400">{lifetime.bossRecords[boss]?.deaths ?? 0}</span>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {history.length > 0 ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <TrendChart title="得分走势" values={history.map(run => run.score)} color="#facc15" />
+                <TrendChart title="关卡走势" values={history.map(run => run.level)} color="#38bdf8" />
+              </div>
+              <p className="text-xs text-gray-500">
+                最近 {history.length} 局（最多保留 {RUN_HISTORY_LENGTH} 局）· 上一局：{GAME_MODES[lastRun.mode].name} ·{' '}
+                {lastRun.score.toLocaleString()} 分 · 第 {lastRun.level} 关
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">完成一局游戏后，这里会显示得分与关卡的走势。</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsScreen;
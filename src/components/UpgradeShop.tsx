@@ -0,0 +1,65 @@
+import React from 'react';
+import { Coins, Wrench, X } from 'lucide-react';
+import { UpgradeLevels, UpgradeType } from '../types';
+import { SALVAGE_PER_ACHIEVEMENT, SALVAGE_PER_BOSS, SALVAGE_SCORE_STEP, UPGRADE_CONFIGS } from '../constants';
+import { UPGRADE_TYPES, maxUpgradeLevel, upgradeCost } from '../engine/upgrades';
+
+interface UpgradeShopProps {
+  salvage: number;
+  upgrades: UpgradeLevels;
+  pure: boolean;
+  onBuy: (type: UpgradeType) => void;
+  onClose: () => void;
+}
+
+const UpgradeShop: React.FC<UpgradeShopProps> = ({ salvage, upgrades, pure, onBuy, onClose }) => (
+  <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-lg flex items-center justify-center p-6">
+    <div className="glass-card p-8 w-full max-w-2xl relative max-h-[85vh] flex flex-col">
+      <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+        <X size={24} />
+      </button>
+      <h2 className="text-3xl font-black italic tracking-tighter mb-2 flex items-center gap-3 text-amber-400">
+        <Wrench size={32} /> 改装车间
+      </h2>
+      <div className="mb-6 flex items-center gap-2 text-sm font-bold text-amber-300">
+        <Coins size={16} /> 回收币 {salvage.toLocaleString()}
+      </div>
+      <div className="space-y-3 overflow-y-auto pr-4 custom-scrollbar">
+        {UPGRADE_TYPES.map(type => {
+          const config = UPGRADE_CONFIGS[type];
+          const level = upgrades[type];
+          const cost = upgradeCost(upgrades, type);
+          const affordable = cost !== null && cost <= salvage;
+          return (
+            <div key={type} className="p-4 rounded-2xl bg-white/5 border border-white/10 flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="font-bold">{config.name}</div>
+                <p className="text-xs text-gray-400">每级：{config.description}</p>
+                <div className="mt-2 flex gap-1">
+                  {[...Array(maxUpgradeLevel(type))].map((_, i) => (
+                    <div key={i} className={`h-1.5 w-8 rounded-full ${i < level ? 'bg-amber-400' : 'bg-white/10'}`} />
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={() => onBuy(type)}
+                disabled={!affordable}
+                className={`shrink-0 px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-1.5 transition-colors ${
+                  affordable ? 'bg-amber-500 text-black hover:bg-amber-400' : 'bg-white/5 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                {cost === null ? '已满级' : <><Coins size={14} /> {cost.toLocaleString()}</>}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-6 text-xs text-gray-500">
+        每局结算时按得分（每 {SALVAGE_SCORE_STEP} 分 1 枚）与击败的首领（每个 {SALVAGE_PER_BOSS} 枚）获得回收币，首次解锁成就另得{' '}
+        {SALVAGE_PER_ACHIEVEMENT} 枚。{pure ? '纯净模式已开启：改装暂不生效。' : '带着改装创下的纪录会被标注。'}
+      </p>
+    </div>
+  </div>
+);
+
+export default UpgradeShop;
@@ -0,0 +1,52 @@
+import { Point, ShipArt } from '../types';
+
+/**
+ * Draws a ship's vector art centred on the origin, scaled to `width` by
+ * `height`. Used for the ship in play and for the hangar previews.
+ */
+export const drawShip = (ctx: CanvasRenderingContext2D, art: ShipArt, width: number, height: number) => {
+  const fillShape = (points: Point[], mirror = 1) => {
+    ctx.beginPath();
+    points.forEach(({ x, y }, i) => {
+      if (i === 0) ctx.moveTo(x * width * mirror, y * height);
+      else ctx.lineTo(x * width * mirror, y * height);
+    });
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  ctx.save();
+  // Shadow
+  ctx.shadowBlur = 20;
+  ctx.shadowColor = `${art.glowColor}80`;
+
+  // Main Body
+  ctx.fillStyle = art.hullColor;
+  fillShape(art.hull);
+
+  // Cockpit (Dark Glass)
+  ctx.fillStyle = '#0f172a';
+  ctx.beginPath();
+  ctx.ellipse(0, art.cockpit.y * height, art.cockpit.width * width, art.cockpit.height * height, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Wings, the left one mirrored from the right
+  ctx.fillStyle = art.wingColor;
+  fillShape(art.wing);
+  fillShape(art.wing, -1);
+
+  // Engines (Glow)
+  const engineY = height * 0.5;
+  const glowRadius = width * 0.4;
+  art.engines.forEach(x => {
+    const engineX = x * width;
+    const engineGlow = ctx.createRadialGradient(engineX, engineY, 0, engineX, engineY, glowRadius);
+    engineGlow.addColorStop(0, art.glowColor);
+    engineGlow.addColorStop(1, 'transparent');
+    ctx.fillStyle = engineGlow;
+    ctx.beginPath();
+    ctx.arc(engineX, engineY, glowRadius * 0.75, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.restore();
+};
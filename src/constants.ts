@@ -1,53 +1,558 @@
+import {
+  Achievement,
+  BossConfig,
+  BulletKind,
+  BulletPattern,
+  BulletSpec,
+  Difficulty,
+  DifficultyProfile,
+  DirectorKnob,
+  EnemyType,
+  EntryEdge,
+  FormationShape,
+  GameMode,
+  GameModeConfig,
+  Point,
+  PowerUpConfig,
+  PowerUpType,
+  ShipConfig,
+  ShipType,
+  UpgradeConfig,
+  UpgradeType,
+  WeaponConfig,
+  WeaponType
+} from './types';
+
 export const CANVAS_WIDTH = 800;
 export const CANVAS_HEIGHT = 900;
 
+// Simulation runs on a fixed step; speeds below are in pixels per second
+export const TICK_MS = 1000 / 60;
+
 export const PLAYER_SIZE = 50;
-export const PLAYER_SPEED = 7;
+export const PLAYER_SPEED = 420;
 export const PLAYER_MAX_HEALTH = 3;
 
+export const SHIP_CONFIGS: Record<ShipType, ShipConfig> = {
+  VANGUARD: {
+    name: '先锋',
+    description: '均衡的制式战机，可清除屏幕上所有敌方子弹',
+    size: PLAYER_SIZE,
+    speed: PLAYER_SPEED,
+    healthBonus: 0,
+    weapon: WeaponType.VULCAN,
+    special: 'purge',
+    specialName: '弹幕净化',
+    cooldown: 20000,
+    unlock: null,
+    art: {
+      hull: [
+        { x: 0, y: -0.5 },
+        { x: 0.15, y: -0.1 },
+        { x: 0.15, y: 0.4 },
+        { x: 0, y: 0.5 },
+        { x: -0.15, y: 0.4 },
+        { x: -0.15, y: -0.1 },
+      ],
+      wing: [
+        { x: 0.15, y: -0.1 },
+        { x: 0.5, y: 0.3 },
+        { x: 0.5, y: 0.5 },
+        { x: 0.15, y: 0.4 },
+      ],
+      cockpit: { y: -0.1, width: 0.1, height: 0.2 },
+      engines: [0],
+      hullColor: '#f8fafc',
+      wingColor: '#e2e8f0',
+      glowColor: '#3b82f6',
+    },
+  },
+  INTERCEPTOR: {
+    name: '疾风',
+    description: '小巧迅捷但装甲单薄，冲刺时短暂无敌',
+    size: 40,
+    speed: 520,
+    healthBonus: -1,
+    weapon: WeaponType.LASER,
+    special: 'dash',
+    specialName: '相位冲刺',
+    cooldown: 8000,
+    unlock: { achievement: 'ace' },
+    art: {
+      hull: [
+        { x: 0, y: -0.5 },
+        { x: 0.1, y: -0.15 },
+        { x: 0.1, y: 0.45 },
+        { x: -0.1, y: 0.45 },
+        { x: -0.1, y: -0.15 },
+      ],
+      wing: [
+        { x: 0.1, y: 0 },
+        { x: 0.5, y: 0.45 },
+        { x: 0.1, y: 0.3 },
+      ],
+      cockpit: { y: -0.15, width: 0.07, height: 0.16 },
+      engines: [0],
+      hullColor: '#fef9c3',
+      wingColor: '#facc15',
+      glowColor: '#f97316',
+    },
+  },
+  FORTRESS: {
+    name: '堡垒',
+    description: '笨重却极其耐打，可随时展开一层护盾',
+    size: 64,
+    speed: 330,
+    healthBonus: 2,
+    weapon: WeaponType.SPREAD,
+    special: 'barrier',
+    specialName: '护盾展开',
+    cooldown: 25000,
+    unlock: { score: 30000 },
+    art: {
+      hull: [
+        { x: 0, y: -0.45 },
+        { x: 0.22, y: -0.3 },
+        { x: 0.22, y: 0.45 },
+        { x: -0.22, y: 0.45 },
+        { x: -0.22, y: -0.3 },
+      ],
+      wing: [
+        { x: 0.22, y: -0.1 },
+        { x: 0.5, y: 0 },
+        { x: 0.5, y: 0.5 },
+        { x: 0.22, y: 0.4 },
+      ],
+      cockpit: { y: -0.15, width: 0.12, height: 0.14 },
+      engines: [-0.12, 0.12],
+      hullColor: '#cbd5e1',
+      wingColor: '#64748b',
+      glowColor: '#22c55e',
+    },
+  },
+  PHANTOM: {
+    name: '幻影',
+    description: '追踪火力的隐秘战机，可让周遭时间短暂凝滞',
+    size: 46,
+    speed: 460,
+    healthBonus: 0,
+    weapon: WeaponType.HOMING,
+    special: 'stasis',
+    specialName: '时间凝滞',
+    cooldown: 22000,
+    unlock: { achievement: 'untouchable' },
+    art: {
+      hull: [
+        { x: 0, y: -0.5 },
+        { x: 0.12, y: 0 },
+        { x: 0, y: 0.35 },
+        { x: -0.12, y: 0 },
+      ],
+      wing: [
+        { x: 0.08, y: -0.2 },
+        { x: 0.5, y: 0.2 },
+        { x: 0.35, y: 0.5 },
+        { x: 0.05, y: 0.25 },
+      ],
+      cockpit: { y: -0.12, width: 0.06, height: 0.18 },
+      engines: [-0.25, 0.25],
+      hullColor: '#e9d5ff',
+      wingColor: '#7c3aed',
+      glowColor: '#a855f7',
+    },
+  },
+};
+
+export const DASH_DURATION = 1200; // ms of invincibility a dash gives
+
+export const GAME_MODES: Record<GameMode, GameModeConfig> = {
+  CAMPAIGN: { name: '战役', description: '逐关推进，击败第 50 关的终极首领即告胜利', color: '#ef4444' },
+  BOSS_RUSH: { name: '首领连战', description: '所有首领依次登场，每场之间完全修复船体', color: '#f97316' },
+  TIME_ATTACK: { name: '限时挑战', description: '3 分钟内尽可能多地得分', color: '#38bdf8' },
+  ENDLESS: { name: '无尽模式', description: '第 50 关之后继续，每 10 关迎来更强的首领', color: '#a855f7' },
+};
+
+export const TIME_ATTACK_LENGTH = 180000;
+// Past the campaign's last boss, Endless sends one every this many levels, each this much tougher
+export const ENDLESS_BOSS_INTERVAL = 10;
+export const ENDLESS_BOSS_GROWTH = 0.25;
+
+// Spare ships: one to start with and another at every milestone, up to the cap
+export const STARTING_LIVES = 1;
+export const EXTRA_LIFE_EVERY = 25000;
+export const MAX_LIVES = 5;
+// A fresh ship or a continued run gets this long to find its bearings
+export const RESPAWN_INVINCIBILITY = 3000;
+export const CONTINUE_CREDITS = 3;
+export const CONTINUE_COUNTDOWN = 10; // seconds the continue screen waits
+
+export const DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+  [Difficulty.EASY]: {
+    name: '简单',
+    description: '敌机更少更脆，五点生命',
+    color: '#4ade80', // green-400
+    spawnInterval: 1.4,
+    enemyHealth: 0.7,
+    enemySpeed: 0.8,
+    enemyBulletSpeed: 0.75,
+    bossHealth: 0.7,
+    bossAttackInterval: 1.4,
+    playerHealth: 5,
+    invincibility: 3000,
+  },
+  [Difficulty.NORMAL]: {
+    name: '普通',
+    description: '标准的星际防线',
+    color: '#60a5fa', // blue-400
+    spawnInterval: 1,
+    enemyHealth: 1,
+    enemySpeed: 1,
+    enemyBulletSpeed: 1,
+    bossHealth: 1,
+    bossAttackInterval: 1,
+    playerHealth: PLAYER_MAX_HEALTH,
+    invincibility: 2000,
+  },
+  [Difficulty.HARD]: {
+    name: '困难',
+    description: '敌机更密更快，弹幕更急',
+    color: '#f97316', // orange-500
+    spawnInterval: 0.8,
+    enemyHealth: 1.3,
+    enemySpeed: 1.15,
+    enemyBulletSpeed: 1.2,
+    bossHealth: 1.3,
+    bossAttackInterval: 0.8,
+    playerHealth: PLAYER_MAX_HEALTH,
+    invincibility: 1500,
+  },
+  [Difficulty.NIGHTMARE]: {
+    name: '噩梦',
+    description: '两点生命，几乎没有喘息',
+    color: '#dc2626', // red-600
+    spawnInterval: 0.6,
+    enemyHealth: 1.7,
+    enemySpeed: 1.3,
+    enemyBulletSpeed: 1.4,
+    bossHealth: 1.6,
+    bossAttackInterval: 0.65,
+    playerHealth: 2,
+    invincibility: 1000,
+  },
+};
+
 export const BULLET_WIDTH = 4;
 export const BULLET_HEIGHT = 15;
-export const BULLET_SPEED = 15;
+export const BULLET_SPEED = 900;
+
+export const BULLET_SPECS: Record<BulletKind, BulletSpec> = {
+  PLAYER: { width: BULLET_WIDTH, height: BULLET_HEIGHT, speed: BULLET_SPEED, damage: 1 },
+  SPREAD: { width: 6, height: 10, speed: 750, damage: 1, color: '#fb923c' },
+  LASER: { width: 5, height: 40, speed: 1400, damage: 2, color: '#a855f7' },
+  MISSILE: { width: 8, height: 16, speed: 540, damage: 2, color: '#22c55e' },
+  BEAM: { width: 14, height: 10, speed: 660, damage: 2, color: '#06b6d4' },
+  RANGED: { width: 6, height: 6, speed: 240, damage: 1 },
+  RING: { width: 8, height: 8, speed: 240, damage: 1 },
+  AIMED: { width: 10, height: 10, speed: 360, damage: 1 },
+  SPIRAL: { width: 8, height: 8, speed: 300, damage: 1 },
+  RAIN: { width: 6, height: 20, speed: 300, damage: 1 },
+  WAVE: { width: 10, height: 10, speed: 180, damage: 2 },
+  NEEDLE: { width: 4, height: 16, speed: 480, damage: 1 },
+  ORB: { width: 16, height: 16, speed: 180, damage: 1 },
+  MINE: { width: 12, height: 12, speed: 40, damage: 1, color: '#f59e0b' },
+};
+
+// Player weapons; every run starts on the first tier of the vulcan
+export const WEAPON_CONFIGS: Record<WeaponType, WeaponConfig> = {
+  VULCAN: {
+    name: '火神炮',
+    color: '#3b82f6',
+    bullet: 'PLAYER',
+    tiers: [
+      { interval: 200, count: 1, spread: 0, gap: 0, damage: 1 },
+      { interval: 180, count: 2, spread: 0, gap: 26, damage: 1 },
+      { interval: 160, count: 3, spread: 0.04, gap: 16, damage: 1 },
+      { interval: 130, count: 4, spread: 0.03, gap: 14, damage: 1 },
+      { interval: 110, count: 5, spread: 0.04, gap: 12, damage: 1 },
+    ],
+  },
+  SPREAD: {
+    name: '散射炮',
+    color: '#fb923c',
+    bullet: 'SPREAD',
+    tiers: [
+      { interval: 260, count: 3, spread: 0.2, gap: 0, damage: 1 },
+      { interval: 240, count: 5, spread: 0.15, gap: 0, damage: 1 },
+      { interval: 220, count: 5, spread: 0.15, gap: 6, damage: 2 },
+      { interval: 200, count: 7, spread: 0.13, gap: 4, damage: 2 },
+      { interval: 180, count: 9, spread: 0.12, gap: 4, damage: 2 },
+    ],
+  },
+  LASER: {
+    name: '穿透激光',
+    color: '#a855f7',
+    bullet: 'LASER',
+    tiers: [
+      { interval: 360, count: 1, spread: 0, gap: 0, damage: 2, pierce: 2 },
+      { interval: 320, count: 1, spread: 0, gap: 0, damage: 3, pierce: 4 },
+      { interval: 300, count: 2, spread: 0, gap: 20, damage: 3, pierce: 5 },
+      { interval: 260, count: 2, spread: 0, gap: 20, damage: 4, pierce: 8 },
+      { interval: 220, count: 3, spread: 0, gap: 18, damage: 4, pierce: 10 },
+    ],
+  },
+  HOMING: {
+    name: '追踪导弹',
+    color: '#22c55e',
+    bullet: 'MISSILE',
+    homing: 5,
+    tiers: [
+      { interval: 450, count: 2, spread: 0.6, gap: 20, damage: 2 },
+      { interval: 400, count: 2, spread: 0.6, gap: 20, damage: 3 },
+      { interval: 380, count: 3, spread: 0.5, gap: 16, damage: 3 },
+      { interval: 340, count: 4, spread: 0.4, gap: 14, damage: 3 },
+      { interval: 300, count: 4, spread: 0.4, gap: 14, damage: 4 },
+    ],
+  },
+  WAVE: {
+    name: '波动光束',
+    color: '#06b6d4',
+    bullet: 'BEAM',
+    sway: { amplitude: 40, rate: 12 },
+    tiers: [
+      { interval: 300, count: 1, spread: 0, gap: 0, damage: 2, pierce: 1 },
+      { interval: 280, count: 2, spread: 0, gap: 0, damage: 2, pierce: 2 },
+      { interval: 260, count: 2, spread: 0, gap: 0, damage: 3, pierce: 3 },
+      { interval: 240, count: 3, spread: 0.1, gap: 0, damage: 3, pierce: 3 },
+      { interval: 220, count: 3, spread: 0.1, gap: 0, damage: 4, pierce: 4 },
+    ],
+  },
+};
+
+// Boss attacks, referenced by key from BOSS_CONFIGS
+export const BULLET_PATTERNS: Record<string, BulletPattern> = {
+  // 初级守卫: the classic four, one volley each
+  guardian_ring: [{ shape: 'ring', bullet: 'RING', count: 12 }],
+  guardian_fan: [{ shape: 'fan', bullet: 'AIMED', count: 3, spread: 0.15, aimed: true }],
+  guardian_spiral: [{ shape: 'spiral', bullet: 'SPIRAL', arms: 4, turnRate: 1 }],
+  guardian_rain: [{ shape: 'curtain', bullet: 'RAIN', lanes: 10, gap: 2 }],
+  guardian_cannons: [
+    { shape: 'fan', bullet: 'AIMED', count: 1, spread: 0, aimed: true, origin: 'left_cannon' },
+    { shape: 'fan', bullet: 'AIMED', count: 1, spread: 0, aimed: true, origin: 'right_cannon', delay: 200 },
+  ],
+
+  // 虚空掠夺者: rings that twist as they repeat and fans that follow the player
+  reaver_twist: [{ shape: 'ring', bullet: 'RING', count: 12, repeat: 3, interval: 150, spin: 0.13 }],
+  reaver_chase: [{ shape: 'fan', bullet: 'AIMED', count: 3, spread: 0.2, aimed: true, repeat: 2, interval: 250 }],
+  reaver_spiral: [{ shape: 'spiral', bullet: 'SPIRAL', arms: 4, turnRate: 3, repeat: 5, interval: 100 }],
+  reaver_rain: [{ shape: 'curtain', bullet: 'RAIN', lanes: 10, gap: 2, repeat: 1, interval: 400 }],
+
+  // 星系毁灭者: orbs that hang in the air before surging, and double walls
+  destroyer_surge: [
+    {
+      shape: 'ring', bullet: 'ORB', count: 16,
+      speedCurve: [{ at: 0, speed: 0.3 }, { at: 600, speed: 0.3 }, { at: 1200, speed: 1.6 }],
+    },
+  ],
+  destroyer_crossfire: [
+    { shape: 'fan', bullet: 'AIMED', count: 5, spread: 0.12, aimed: true },
+    { shape: 'fan', bullet: 'NEEDLE', count: 2, spread: 1.2, aimed: true, delay: 200 },
+  ],
+  destroyer_wall: [
+    { shape: 'curtain', bullet: 'RAIN', lanes: 12, gap: 3 },
+    { shape: 'curtain', bullet: 'RAIN', lanes: 12, gap: 3, delay: 450 },
+  ],
+  destroyer_galaxy: [{ shape: 'spiral', bullet: 'SPIRAL', arms: 6, turnRate: 2, repeat: 6, interval: 80 }],
+  destroyer_turrets: [
+    { shape: 'fan', bullet: 'NEEDLE', count: 3, spread: 0.15, aimed: true, origin: 'left_turret', repeat: 2, interval: 150 },
+    { shape: 'fan', bullet: 'NEEDLE', count: 3, spread: 0.15, aimed: true, origin: 'right_turret', repeat: 2, interval: 150 },
+  ],
+
+  // 格赫罗斯之影: interleaved rings, needle bursts and a vortex that slows as it spreads
+  shadow_lattice: [
+    { shape: 'ring', bullet: 'RING', count: 20 },
+    { shape: 'ring', bullet: 'RING', count: 20, angle: Math.PI / 20, delay: 300 },
+  ],
+  shadow_needles: [{ shape: 'fan', bullet: 'NEEDLE', count: 5, spread: 0.1, aimed: true, repeat: 3, interval: 120 }],
+  shadow_vortex: [
+    {
+      shape: 'spiral', bullet: 'SPIRAL', arms: 5, turnRate: 2.5, repeat: 8, interval: 60,
+      speedCurve: [{ at: 0, speed: 1.4 }, { at: 800, speed: 0.7 }],
+    },
+  ],
+  shadow_rain: [
+    {
+      shape: 'curtain', bullet: 'RAIN', lanes: 14, gap: 3,
+      speedCurve: [{ at: 0, speed: 0.5 }, { at: 700, speed: 1.4 }],
+    },
+  ],
+
+  shadow_gaze: [{ shape: 'fan', bullet: 'AIMED', count: 9, spread: 0.08, aimed: true, origin: 'eye', repeat: 2, interval: 200 }],
+
+  // 格赫罗斯本体
+  ghroth_bloom: [
+    {
+      shape: 'ring', bullet: 'ORB', count: 24, repeat: 2, interval: 300, spin: Math.PI / 24,
+      speedCurve: [{ at: 0, speed: 1.5 }, { at: 500, speed: 0.6 }],
+    },
+  ],
+  ghroth_judgement: [
+    { shape: 'fan', bullet: 'AIMED', count: 7, spread: 0.12, aimed: true },
+    { shape: 'ring', bullet: 'NEEDLE', count: 16, delay: 250 },
+  ],
+  ghroth_maelstrom: [
+    { shape: 'spiral', bullet: 'SPIRAL', arms: 6, turnRate: 3, repeat: 6, interval: 70 },
+    { shape: 'spiral', bullet: 'SPIRAL', arms: 6, turnRate: -3, repeat: 6, interval: 70 },
+  ],
+  ghroth_rain: [{ shape: 'curtain', bullet: 'RAIN', lanes: 16, gap: 3, repeat: 1, interval: 500 }],
+  ghroth_wave: [{ shape: 'curtain', bullet: 'WAVE', lanes: 20, gap: 0 }],
+  ghroth_turrets: [
+    { shape: 'ring', bullet: 'RING', count: 10, origin: 'left_turret', repeat: 2, interval: 250, spin: 0.15 },
+    { shape: 'ring', bullet: 'RING', count: 10, origin: 'right_turret', repeat: 2, interval: 250, spin: -0.15 },
+  ],
+};
 
 export const ENEMY_CONFIGS = {
   BASIC: {
     width: 40,
     height: 40,
-    speed: 2.5,
+    speed: 150,
     health: 1,
     scoreValue: 100,
     color: '#3b82f6', // blue-500
+    dropChance: 0,
+    behaviour: 'sine',
   },
   FAST: {
     width: 30,
     height: 30,
-    speed: 5.5,
+    speed: 330,
     health: 1,
     scoreValue: 200,
     color: '#facc15', // yellow-400
+    dropChance: 0,
+    behaviour: 'swoop',
   },
   HEAVY: {
     width: 60,
     height: 60,
-    speed: 1.5,
+    speed: 90,
     health: 6,
     scoreValue: 500,
     color: '#ef4444', // red-500
+    dropChance: 0.3, // of leaving a power-up behind when destroyed
+    behaviour: 'zigzag', // see engine/behaviours.ts
   },
   RANGED: {
     width: 45,
     height: 45,
-    speed: 2.2,
+    speed: 132,
     health: 3,
     scoreValue: 300,
     color: '#f97316', // orange-500
+    dropChance: 0.1,
+    behaviour: 'hover',
+  },
+  MINELAYER: {
+    width: 50,
+    height: 40,
+    speed: 110,
+    health: 4,
+    scoreValue: 400,
+    color: '#f59e0b', // amber-500
+    dropChance: 0.15,
+    behaviour: 'minelayer',
+  },
+  SHIELDER: {
+    width: 44,
+    height: 44,
+    speed: 80,
+    health: 5,
+    scoreValue: 600,
+    color: '#22d3ee', // cyan-400
+    dropChance: 0.25,
+    behaviour: 'shielder',
   },
 };
 
+export const ENEMY_NAMES: Record<EnemyType, string> = {
+  [EnemyType.BASIC]: '普通',
+  [EnemyType.FAST]: '高速',
+  [EnemyType.HEAVY]: '重型',
+  [EnemyType.RANGED]: '远程',
+  [EnemyType.MINELAYER]: '布雷',
+  [EnemyType.SHIELDER]: '护盾',
+};
+
+// Enemies whose centres are this close to a shielder's deflect player shots
+export const SHIELDER_RADIUS = 120;
+
+// Direction enemies fly after entering from each edge; side entrants sink a little as they cross
+export const ENTRY_DIRECTIONS: Record<EntryEdge, Point> = {
+  top: { x: 0, y: 1 },
+  bottom: { x: 0, y: -1 },
+  left: { x: 0.98, y: 0.2 },
+  right: { x: -0.98, y: 0.2 },
+};
+// Enemies from the sides and bottom start this far out, so their warning shows before they arrive
+export const ENTRY_LEAD = 160;
+
+export const FORMATION_SIZES: Record<FormationShape, number> = { v: 5, line: 5, circle: 6, snake: 6 };
+export const FORMATION_GAP = 60; // px between neighbouring members of a V or a line
+export const FORMATION_RING_RADIUS = 80;
+export const FORMATION_RING_RATE = 1.2; // radians per second a circle turns
+export const FORMATION_SNAKE_LAG = 280; // ms each member of a snake trails the one ahead
+export const FORMATION_CHANCE = 0.2; // of a random spawn being a whole formation, from level 3
+export const FORMATION_BONUS = 150; // per member, for shooting down the whole formation
+export const FORMATION_DROP_CHANCE = 0.5;
+
+// Kills within this many ms of each other keep the combo going; being hit ends it at once
+export const COMBO_TIMEOUT = 2500;
+export const COMBO_STEP = 5; // kills per step up the multiplier
+export const COMBO_STEP_BONUS = 0.25;
+export const COMBO_MAX_MULTIPLIER = 4;
+// An enemy shot whose centre passes this close to the player's centre without hitting pays a graze
+export const GRAZE_RADIUS = 45;
+export const GRAZE_SCORE = 20;
+// Share of the boss fight's score paid again for finishing it without being hit
+export const NO_MISS_BOSS_BONUS = 0.5;
+
+// Adaptive difficulty: every review nudges each knob one step toward how the player is doing
+export const DIRECTOR_REVIEW_INTERVAL = 10000;
+export const DIRECTOR_WINDOW = 30000; // ms of recent spawns, kills and hits a review looks back over
+export const DIRECTOR_CALM_TIME = 45000; // ms without a hit that counts as fully at ease
+export const DIRECTOR_TARGET_KILL_RATE = 0.6; // share of spawned enemies shot down by a player who is keeping up
+export const DIRECTOR_DEADBAND = 0.15; // verdicts closer to zero than this leave the knobs alone
+export const DIRECTOR_STEP = 0.05;
+export const DIRECTOR_BOUNDS: Record<DirectorKnob, [number, number]> = {
+  spawnRate: [0.7, 1.3],
+  enemyHealth: [0.75, 1.25],
+  powerUpRate: [0.7, 1.5],
+};
+
 export const POWERUP_SIZE = 30;
-export const POWERUP_DURATION = 10000; // 10 seconds
+export const POWERUP_SPAWN_INTERVAL = 15000;
+
+export const POWERUP_CONFIGS: Record<PowerUpType, PowerUpConfig> = {
+  WEAPON: { name: '武器模块', label: 'W', color: '#a855f7', weight: 6, duration: 0 },
+  TRIPLE_SHOT: { name: '三向子弹', label: 'T', color: '#facc15', weight: 2, duration: 10000, stacking: 'refresh' },
+  SHIELD: { name: '护盾充能', label: 'S', color: '#3b82f6', weight: 2, duration: 0, maxStacks: 3 },
+  BOMB: { name: '清屏炸弹', label: 'B', color: '#ef4444', weight: 1, duration: 0 },
+  SPEED: {
+    name: '引擎超载', label: 'V', color: '#38bdf8', weight: 1.5, duration: 8000, stacking: 'extend', maxDuration: 20000,
+  },
+  MAGNET: { name: '得分磁铁', label: 'M', color: '#eab308', weight: 1.5, duration: 12000, stacking: 'refresh' },
+  REPAIR: { name: '船体修复', label: 'R', color: '#22c55e', weight: 1, duration: 0 },
+  DAMAGE: { name: '火力增幅', label: 'D', color: '#f43f5e', weight: 1.5, duration: 10000, stacking: 'stack', maxStacks: 3 },
+  TIME_SLOW: { name: '时间缓流', label: 'Z', color: '#c084fc', weight: 1, duration: 6000, stacking: 'refresh' },
+};
+
+export const SPEED_BOOST = 1.5; // movement multiplier while SPEED runs
+export const MAGNET_SCORE_MULTIPLIER = 2;
+export const MAGNET_PULL_RATE = 4; // per second, eased toward the ship
+export const DAMAGE_BOOST_PER_STACK = 0.5;
+export const TIME_SLOW_FACTOR = 0.5; // hostile movement while TIME_SLOW runs
 
-export const BOSS_CONFIGS = {
+export const BOSS_CONFIGS: Record<number, BossConfig> = {
   5: {
     name: '初级守卫',
     width: 150,
@@ -55,7 +560,30 @@ export const BOSS_CONFIGS = {
     health: 100,
     scoreValue: 5000,
     color: '#9333ea', // purple-600
-    speed: 1.2,
+    speed: 72,
+    count: 1,
+    escorts: 0,
+    phases: [
+      {
+        at: 1,
+        movement: 'sweep',
+        speed: 1,
+        attackInterval: 1000,
+        attacks: ['guardian_ring', 'guardian_fan', 'guardian_spiral', 'guardian_rain', 'guardian_cannons'],
+      },
+      {
+        at: 0.4,
+        movement: 'track',
+        speed: 1.5,
+        attackInterval: 800,
+        attacks: ['guardian_ring', 'guardian_fan', 'guardian_rain', 'guardian_cannons'],
+        transition: 1200,
+      },
+    ],
+    parts: [
+      { id: 'left_cannon', name: '左炮', x: 8, y: 80, width: 30, height: 30, health: 15, scoreValue: 500 },
+      { id: 'right_cannon', name: '右炮', x: 112, y: 80, width: 30, height: 30, health: 15, scoreValue: 500 },
+    ],
   },
   10: {
     name: '虚空掠夺者',
@@ -64,7 +592,29 @@ export const BOSS_CONFIGS = {
     health: 300,
     scoreValue: 15000,
     color: '#c026d3', // fuchsia-600
-    speed: 1.8,
+    speed: 108,
+    count: 1,
+    escorts: 0,
+    phases: [
+      {
+        at: 1,
+        movement: 'sweep',
+        speed: 1,
+        attackInterval: 1000,
+        attacks: ['reaver_twist', 'reaver_chase', 'reaver_spiral', 'reaver_rain'],
+      },
+      {
+        at: 0.5,
+        movement: 'weave',
+        speed: 1.3,
+        attackInterval: 850,
+        attacks: ['reaver_twist', 'reaver_chase', 'reaver_spiral'],
+        transition: 1500,
+      },
+    ],
+    parts: [
+      { id: 'core', name: '能量核心', x: 70, y: 125, width: 60, height: 50, health: 60, scoreValue: 3000, shieldsBody: true },
+    ],
   },
   20: {
     name: '星系毁灭者',
@@ -73,7 +623,38 @@ export const BOSS_CONFIGS = {
     health: 800,
     scoreValue: 50000,
     color: '#dc2626', // red-600
-    speed: 2.5,
+    speed: 150,
+    count: 2,
+    escorts: 2,
+    phases: [
+      {
+        at: 1,
+        movement: 'sweep',
+        speed: 1,
+        attackInterval: 500,
+        attacks: ['destroyer_surge', 'destroyer_crossfire', 'destroyer_wall', 'destroyer_turrets'],
+      },
+      {
+        at: 0.6,
+        movement: 'sweep',
+        speed: 1.3,
+        attackInterval: 500,
+        attacks: ['destroyer_surge', 'destroyer_galaxy', 'destroyer_wall', 'destroyer_turrets'],
+        transition: 1000,
+      },
+      {
+        at: 0.25,
+        movement: 'track',
+        speed: 1.6,
+        attackInterval: 400,
+        attacks: ['destroyer_surge', 'destroyer_crossfire', 'destroyer_galaxy'],
+        transition: 1500,
+      },
+    ],
+    parts: [
+      { id: 'left_turret', name: '左炮塔', x: 20, y: 180, width: 40, height: 40, health: 80, scoreValue: 5000 },
+      { id: 'right_turret', name: '右炮塔', x: 190, y: 180, width: 40, height: 40, health: 80, scoreValue: 5000 },
+    ],
   },
   30: {
     name: '格赫罗斯之影',
@@ -82,7 +663,29 @@ export const BOSS_CONFIGS = {
     health: 2500,
     scoreValue: 100000,
     color: '#000000', // black
-    speed: 3.2,
+    speed: 192,
+    count: 3,
+    escorts: 3,
+    phases: [
+      {
+        at: 1,
+        movement: 'sweep',
+        speed: 1,
+        attackInterval: 500,
+        attacks: ['shadow_lattice', 'shadow_needles', 'shadow_vortex', 'shadow_rain'],
+      },
+      {
+        at: 0.5,
+        movement: 'weave',
+        speed: 1.2,
+        attackInterval: 450,
+        attacks: ['shadow_lattice', 'shadow_needles', 'shadow_vortex', 'shadow_rain', 'shadow_gaze'],
+        transition: 1500,
+      },
+    ],
+    parts: [
+      { id: 'eye', name: '暗影之眼', x: 115, y: 215, width: 70, height: 60, health: 300, scoreValue: 10000, shieldsBody: true },
+    ],
   },
   50: {
     name: '格赫罗斯本体',
@@ -91,7 +694,42 @@ export const BOSS_CONFIGS = {
     health: 10000,
     scoreValue: 500000,
     color: '#7f1d1d', // dark red
-    speed: 4,
+    speed: 240,
+    count: 1,
+    escorts: 5,
+    phases: [
+      {
+        at: 1,
+        movement: 'sweep',
+        speed: 1,
+        attackInterval: 500,
+        attacks: ['ghroth_bloom', 'ghroth_judgement', 'ghroth_maelstrom', 'ghroth_rain', 'ghroth_turrets'],
+        ultimate: { pattern: 'ghroth_wave', chance: 0.1 },
+      },
+      {
+        at: 0.66,
+        movement: 'weave',
+        speed: 1.2,
+        attackInterval: 450,
+        attacks: ['ghroth_bloom', 'ghroth_judgement', 'ghroth_maelstrom', 'ghroth_turrets'],
+        ultimate: { pattern: 'ghroth_wave', chance: 0.15 },
+        transition: 1500,
+      },
+      {
+        at: 0.33,
+        movement: 'track',
+        speed: 1.5,
+        attackInterval: 400,
+        attacks: ['ghroth_bloom', 'ghroth_judgement', 'ghroth_maelstrom', 'ghroth_rain'],
+        ultimate: { pattern: 'ghroth_wave', chance: 0.25 },
+        transition: 2000,
+      },
+    ],
+    parts: [
+      { id: 'core', name: '本体核心', x: 160, y: 310, width: 80, height: 70, health: 1500, scoreValue: 50000, shieldsBody: true },
+      { id: 'left_turret', name: '左炮塔', x: 30, y: 325, width: 50, height: 50, health: 600, scoreValue: 20000 },
+      { id: 'right_turret', name: '右炮塔', x: 320, y: 325, width: 50, height: 50, health: 600, scoreValue: 20000 },
+    ],
   },
 };
 
@@ -103,17 +741,113 @@ export const PLANET_COLORS = [
   { main: '#831843', detail: '#9d174d' }, // pink
 ];
 
-export const ACHIEVEMENTS_LIST = [
-  { id: 'first_blood', title: '第一滴血', description: '击毁第一架敌机', unlocked: false },
-  { id: 'survivor', title: '生存者', description: '在单局游戏中存活超过60秒', unlocked: false },
-  { id: 'ace', title: '王牌飞行员', description: '单局得分超过10000分', unlocked: false },
-  { id: 'shield_master', title: '护盾大师', description: '使用护盾抵挡一次攻击', unlocked: false },
-  { id: 'triple_threat', title: '三重威胁', description: '拾取三向子弹道具', unlocked: false },
-  { id: 'level_up', title: '晋升', description: '达到第5关', unlocked: false },
-  { id: 'boss_slayer', title: '首领克星', description: '击败第一个BOSS', unlocked: false },
-  { id: 'untouchable', title: '不可触碰', description: '单局游戏内无伤击败一个BOSS', unlocked: false },
-  { id: 'power_hungry', title: '能量渴求', description: '单局累计拾取10个道具', unlocked: false },
-  { id: 'planet_traveler', title: '星际旅者', description: '单局累计得分超过50000分', unlocked: false },
-  { id: 'order_restorer', title: '秩序修复者', description: '击败最终BOSS格赫罗斯之影', unlocked: false },
-  { id: 'speed_demon', title: '极速恶魔', description: '在30秒内击毁50架敌机', unlocked: false },
+// Unlocked by their condition, checked against the run's stats as it plays
+export const ACHIEVEMENTS_LIST: Achievement[] = [
+  {
+    id: 'first_blood',
+    title: '第一滴血',
+    description: '击毁第一架敌机',
+    condition: { kind: 'run', stat: 'kills', target: 1 },
+    unlocked: false,
+  },
+  {
+    id: 'survivor',
+    title: '生存者',
+    description: '在单局游戏中存活超过60秒',
+    condition: { kind: 'run', stat: 'survived', target: 60000 },
+    unlocked: false,
+  },
+  {
+    id: 'ace',
+    title: '王牌飞行员',
+    description: '单局得分超过10000分',
+    condition: { kind: 'run', stat: 'score', target: 10000 },
+    unlocked: false,
+  },
+  {
+    id: 'shield_master',
+    title: '护盾大师',
+    description: '使用护盾抵挡一次攻击',
+    condition: { kind: 'run', stat: 'shieldBlocks', target: 1 },
+    unlocked: false,
+  },
+  {
+    id: 'triple_threat',
+    title: '三重威胁',
+    description: '拾取三向子弹道具',
+    condition: { kind: 'run', stat: 'tripleShots', target: 1 },
+    unlocked: false,
+  },
+  {
+    id: 'level_up',
+    title: '晋升',
+    description: '达到第5关',
+    condition: { kind: 'run', stat: 'level', target: 5 },
+    unlocked: false,
+  },
+  {
+    id: 'boss_slayer',
+    title: '首领克星',
+    description: '击败第一个BOSS',
+    condition: { kind: 'boss', flawless: false },
+    unlocked: false,
+  },
+  {
+    id: 'untouchable',
+    title: '不可触碰',
+    description: '单局游戏内无伤击败一个BOSS',
+    condition: { kind: 'boss', flawless: true },
+    unlocked: false,
+  },
+  {
+    id: 'power_hungry',
+    title: '能量渴求',
+    description: '单局累计拾取10个道具',
+    condition: { kind: 'run', stat: 'powerUps', target: 10 },
+    unlocked: false,
+  },
+  {
+    id: 'planet_traveler',
+    title: '星际旅者',
+    description: '单局累计得分超过50000分',
+    condition: { kind: 'run', stat: 'score', target: 50000 },
+    unlocked: false,
+  },
+  {
+    id: 'order_restorer',
+    title: '秩序修复者',
+    description: '击败最终BOSS格赫罗斯之影',
+    condition: { kind: 'boss', boss: 'final', flawless: false },
+    unlocked: false,
+  },
+  {
+    id: 'speed_demon',
+    title: '极速恶魔',
+    description: '在30秒内击毁50架敌机',
+    condition: { kind: 'window', stat: 'kills', target: 50, window: 30000 },
+    unlocked: false,
+  },
+  {
+    id: 'veteran',
+    title: '百战老兵',
+    description: '累计击毁1000架敌机',
+    condition: { kind: 'lifetime', stat: 'kills', target: 1000 },
+    unlocked: false,
+  },
 ];
+
+// Finished runs the profile keeps for the stats screen's charts
+export const RUN_HISTORY_LENGTH = 50;
+
+// Salvage a finished run earns: one per this many points, plus a share for every boss beaten
+export const SALVAGE_SCORE_STEP = 100;
+export const SALVAGE_PER_BOSS = 50;
+export const SALVAGE_PER_ACHIEVEMENT = 100; // the first time it's unlocked on any difficulty
+
+export const UPGRADE_CONFIGS: Record<UpgradeType, UpgradeConfig> = {
+  HULL: { name: '强化船体', description: '最大耐久 +1', costs: [600], step: 1 },
+  FIRE_RATE: { name: '速射机构', description: '基础射击间隔 -8%', costs: [150, 300, 600], step: 0.08 },
+  POWERUP_DURATION: { name: '稳定模块', description: '道具持续时间 +20%', costs: [100, 200, 400], step: 0.2 },
+  SHIELD: { name: '初始护盾', description: '出击时带有 1 层护盾', costs: [250, 500], step: 1 },
+  MAGNET: { name: '回收力场', description: '吸附 80 像素内的道具', costs: [100, 200, 300], step: 80 },
+};
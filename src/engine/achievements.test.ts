@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Achievement, Difficulty, EnemyType, GameEvent, SimEvent, WeaponType } from '../types';
+import { ACHIEVEMENTS_LIST } from '../constants';
+import { createWorld } from './simulation';
+import { createEventBus } from './eventBus';
+import { FINAL_BOSS } from './modes';
+import {
+  achievementProgress,
+  createLifetimeStats,
+  createRunStats,
+  isEarned,
+  mergeRunStats,
+  recordStats,
+  trackAchievements
+} from './achievements';
+
+const achievement = (id: string): Achievement => ACHIEVEMENTS_LIST.find(a => a.id === id)!;
+
+const runStarted: GameEvent = {
+  type: 'RunStarted',
+  resumed: false,
+  difficulty: Difficulty.NORMAL,
+  score: 0,
+  level: 1,
+  health: 3,
+  maxHealth: 3,
+  lives: 1,
+  weapon: WeaponType.VULCAN,
+  weaponTier: 0,
+};
+
+const kill = (): SimEvent => ({ type: 'EnemyKilled', enemy: EnemyType.BASIC, x: 0, y: 0 });
+
+// Kills spread evenly over `ms` of game time, recorded a tick at a time
+const killsOver = (count: number, ms: number) => {
+  const world = createWorld({});
+  for (let i = 0; i < count; i++) {
+    world.time = (i * ms) / count;
+    recordStats(world, [kill()]);
+  }
+  return world.stats;
+};
+
+describe('achievements', () => {
+  it('count a run toward its stats as events arrive', () => {
+    const world = createWorld({});
+    world.time = 1000;
+    recordStats(world, [kill(), { type: 'ShotsFired', count: 3 }, { type: 'ShotHit' }, { type: 'PlayerHit', source: 'bullet' }]);
+    assert.equal(world.stats.values.kills, 1);
+    assert.equal(world.stats.enemyKills.BASIC, 1);
+    assert.equal(world.stats.values.shots, 3);
+    assert.equal(world.stats.values.hits, 1);
+    assert.equal(world.stats.damage.bullet, 1);
+    assert.equal(world.stats.values.survived, 1000);
+    assert.ok(isEarned(achievement('first_blood'), world.stats, createLifetimeStats(), Difficulty.NORMAL));
+  });
+
+  it('judge window achievements by the busiest stretch of the run', () => {
+    const speedDemon = achievement('speed_demon');
+    assert.ok(isEarned(speedDemon, killsOver(50, 29000), createLifetimeStats(), Difficulty.NORMAL));
+    assert.ok(!isEarned(speedDemon, killsOver(50, 60000), createLifetimeStats(), Difficulty.NORMAL));
+  });
+
+  it('add the run in progress to lifetime totals', () => {
+    const veteran = achievement('veteran');
+    const run = killsOver(400, 600000);
+    const lifetime = mergeRunStats(mergeRunStats(createLifetimeStats(), run, Difficulty.EASY), run, Difficulty.NORMAL);
+    assert.deepEqual(achievementProgress(veteran.condition, null, lifetime, Difficulty.HARD), { value: 800, target: 1000 });
+    assert.ok(isEarned(veteran, run, lifetime, Difficulty.HARD));
+    assert.equal(lifetime.runs, 2);
+    assert.equal(lifetime.enemyKills.BASIC, 800);
+  });
+
+  it('judge single-run feats only against runs on the same difficulty', () => {
+    const run = killsOver(60, 20000);
+    const world = createWorld({});
+    recordStats(world, [{ type: 'BossDefeated', boss: 10, flawless: true }]);
+    let lifetime = mergeRunStats(createLifetimeStats(), run, Difficulty.EASY);
+    lifetime = mergeRunStats(lifetime, world.stats, Difficulty.EASY);
+    ['speed_demon', 'boss_slayer', 'untouchable', 'first_blood'].forEach(id => {
+      assert.ok(isEarned(achievement(id), null, lifetime, Difficulty.EASY), id);
+      assert.ok(!isEarned(achievement(id), null, lifetime, Difficulty.NIGHTMARE), id);
+    });
+    assert.equal(achievementProgress(achievement('veteran').condition, null, lifetime, Difficulty.NIGHTMARE).value, 60);
+  });
+
+  it('announce only what a run earns on its own difficulty', () => {
+    const events = createEventBus<GameEvent>();
+    const unlocked: string[] = [];
+    events.on('AchievementUnlocked', e => unlocked.push(e.id));
+    const lifetime = mergeRunStats(createLifetimeStats(), killsOver(60, 20000), Difficulty.EASY);
+    trackAchievements(events, () => lifetime);
+    events.emit({ ...runStarted, difficulty: Difficulty.NIGHTMARE });
+    events.emit({ type: 'StatsUpdated', stats: createRunStats() });
+    assert.deepEqual(unlocked, []);
+    events.emit({ ...runStarted, difficulty: Difficulty.EASY });
+    events.emit({ type: 'StatsUpdated', stats: createRunStats() });
+    assert.deepEqual(unlocked.sort(), ['first_blood', 'speed_demon']);
+  });
+
+  it('tell the final boss apart from the others', () => {
+    const world = createWorld({});
+    recordStats(world, [{ type: 'BossDefeated', boss: 10, flawless: true }]);
+    assert.ok(isEarned(achievement('boss_slayer'), world.stats, createLifetimeStats(), Difficulty.NORMAL));
+    assert.ok(isEarned(achievement('untouchable'), world.stats, createLifetimeStats(), Difficulty.NORMAL));
+    assert.ok(!isEarned(achievement('order_restorer'), world.stats, createLifetimeStats(), Difficulty.NORMAL));
+    recordStats(world, [{ type: 'BossDefeated', boss: FINAL_BOSS, flawless: false }]);
+    assert.ok(isEarned(achievement('order_restorer'), world.stats, createLifetimeStats(), Difficulty.NORMAL));
+  });
+
+  it('are announced once per run', () => {
+    const events = createEventBus<GameEvent>();
+    const unlocked: string[] = [];
+    events.on('AchievementUnlocked', e => unlocked.push(e.id));
+    const stop = trackAchievements(events, () => createLifetimeStats());
+    const stats = createRunStats();
+    stats.values.kills = 1;
+    events.emit(runStarted);
+    events.emit({ type: 'StatsUpdated', stats });
+    events.emit({ type: 'StatsUpdated', stats });
+    assert.deepEqual(unlocked, ['first_blood']);
+    events.emit(runStarted);
+    events.emit({ type: 'StatsUpdated', stats });
+    assert.deepEqual(unlocked, ['first_blood', 'first_blood']);
+    stop();
+    events.emit(runStarted);
+    events.emit({ type: 'StatsUpdated', stats });
+    assert.equal(unlocked.length, 2);
+  });
+});
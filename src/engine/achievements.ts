@@ -0,0 +1,252 @@
+import {
+  Achievement,
+  AchievementCondition,
+  AchievementProgress,
+  AchievementStat,
+  BossRecord,
+  Difficulty,
+  DifficultyBests,
+  EnemyType,
+  GameEvent,
+  HitSource,
+  LifetimeStats,
+  PowerUpType,
+  RunStats,
+  SimEvent,
+  WorldState
+} from '../types';
+import { ACHIEVEMENTS_LIST } from '../constants';
+import { FINAL_BOSS, bossConfigKey } from './modes';
+import { EventBus } from './eventBus';
+
+const ACHIEVEMENT_STATS: AchievementStat[] = [
+  'kills',
+  'bosses',
+  'flawlessBosses',
+  'powerUps',
+  'tripleShots',
+  'shieldBlocks',
+  'shots',
+  'hits',
+  'deaths',
+  'score',
+  'level',
+  'survived',
+];
+
+const zeroStats = () => Object.fromEntries(ACHIEVEMENT_STATS.map(stat => [stat, 0])) as Record<AchievementStat, number>;
+
+const zeroEnemyKills = () =>
+  Object.fromEntries(Object.values(EnemyType).map(enemy => [enemy, 0])) as Record<EnemyType, number>;
+
+const zeroDamage = (): Record<HitSource, number> => ({ bullet: 0, enemy: 0, boss: 0 });
+
+type WindowCondition = Extract<AchievementCondition, { kind: 'window' }>;
+
+export const windowKey = ({ stat, window }: WindowCondition) => `${stat}/${window}`;
+
+// Every sliding window an achievement watches, and the longest one per stat
+const WINDOWS = ACHIEVEMENTS_LIST.map(a => a.condition).filter((c): c is WindowCondition => c.kind === 'window');
+const LONGEST_WINDOW: Partial<Record<AchievementStat, number>> = {};
+WINDOWS.forEach(w => {
+  LONGEST_WINDOW[w.stat] = Math.max(LONGEST_WINDOW[w.stat] ?? 0, w.window);
+});
+
+export const createRunStats = (): RunStats => ({
+  values: zeroStats(),
+  recent: {},
+  peaks: {},
+  bosses: [],
+  flawlessBosses: [],
+  enemyKills: zeroEnemyKills(),
+  bossRecords: {},
+  damage: zeroDamage(),
+});
+
+export const createDifficultyBests = (): DifficultyBests => ({
+  bests: zeroStats(),
+  peaks: {},
+  bosses: [],
+  flawlessBosses: [],
+});
+
+export const createLifetimeStats = (): LifetimeStats => ({
+  runs: 0,
+  totals: zeroStats(),
+  bests: zeroStats(),
+  difficulties: Object.fromEntries(
+    Object.values(Difficulty).map(difficulty => [difficulty, createDifficultyBests()])
+  ) as Record<Difficulty, DifficultyBests>,
+  enemyKills: zeroEnemyKills(),
+  bossRecords: {},
+  damage: zeroDamage(),
+});
+
+const count = (world: WorldState, stat: AchievementStat) => {
+  const { stats } = world;
+  stats.values[stat] += 1;
+  const longest = LONGEST_WINDOW[stat];
+  if (longest === undefined) return;
+  const recent = (stats.recent[stat] ??= []);
+  recent.push(world.time);
+  while (recent[0] <= world.time - longest) recent.shift();
+  WINDOWS.filter(w => w.stat === stat).forEach(w => {
+    const key = windowKey(w);
+    const inWindow = recent.filter(t => t > world.time - w.window).length;
+    stats.peaks[key] = Math.max(stats.peaks[key] ?? 0, inWindow);
+  });
+};
+
+const addBoss = (list: number[], boss: number) => {
+  if (!list.includes(boss)) list.push(boss);
+};
+
+const bossRecord = (records: Record<number, BossRecord>, boss: number) =>
+  (records[bossConfigKey(boss)] ??= { kills: 0, deaths: 0 });
+
+/**
+ * Folds one tick's events into the run's stats. Score, level and time survived
+ * are read straight off the world and only ever go up, so a continue that
+ * resets the score doesn't undo progress already made.
+ */
+export const recordStats = (world: WorldState, events: SimEvent[]) => {
+  const { stats } = world;
+  events.forEach(event => {
+    switch (event.type) {
+      case 'EnemyKilled':
+        count(world, 'kills');
+        stats.enemyKills[event.enemy] += 1;
+        break;
+      case 'ShotsFired':
+        stats.values.shots += event.count;
+        break;
+      case 'ShotHit':
+        count(world, 'hits');
+        break;
+      case 'PlayerHit':
+        stats.damage[event.source] += 1;
+        break;
+      case 'ShipLost':
+        count(world, 'deaths');
+        if (event.boss !== null) bossRecord(stats.bossRecords, event.boss).deaths += 1;
+        break;
+      case 'PowerUpCollected':
+        count(world, 'powerUps');
+        if (event.powerUp === PowerUpType.TRIPLE_SHOT) count(world, 'tripleShots');
+        break;
+      case 'ShieldAbsorbed':
+        count(world, 'shieldBlocks');
+        break;
+      case 'BossDefeated':
+        count(world, 'bosses');
+        addBoss(stats.bosses, event.boss);
+        bossRecord(stats.bossRecords, event.boss).kills += 1;
+        if (event.flawless) {
+          count(world, 'flawlessBosses');
+          addBoss(stats.flawlessBosses, event.boss);
+        }
+        break;
+    }
+  });
+  stats.values.score = Math.max(stats.values.score, world.score);
+  stats.values.level = Math.max(stats.values.level, world.level);
+  stats.values.survived = Math.max(stats.values.survived, world.time);
+};
+
+// Adds a finished run, played on `difficulty`, to the lifetime figures
+export const mergeRunStats = (lifetime: LifetimeStats, run: RunStats, difficulty: Difficulty): LifetimeStats => {
+  const merged = structuredClone(lifetime);
+  const best = merged.difficulties[difficulty];
+  merged.runs += 1;
+  ACHIEVEMENT_STATS.forEach(stat => {
+    merged.totals[stat] += run.values[stat];
+    merged.bests[stat] = Math.max(merged.bests[stat], run.values[stat]);
+    best.bests[stat] = Math.max(best.bests[stat], run.values[stat]);
+  });
+  Object.entries(run.peaks).forEach(([key, peak]) => {
+    best.peaks[key] = Math.max(best.peaks[key] ?? 0, peak);
+  });
+  run.bosses.forEach(boss => addBoss(best.bosses, boss));
+  run.flawlessBosses.forEach(boss => addBoss(best.flawlessBosses, boss));
+  (Object.keys(run.enemyKills) as EnemyType[]).forEach(enemy => {
+    merged.enemyKills[enemy] += run.enemyKills[enemy];
+  });
+  Object.entries(run.bossRecords).forEach(([boss, { kills, deaths }]) => {
+    const record = bossRecord(merged.bossRecords, Number(boss));
+    record.kills += kills;
+    record.deaths += deaths;
+  });
+  (Object.keys(run.damage) as HitSource[]).forEach(source => {
+    merged.damage[source] += run.damage[source];
+  });
+  return merged;
+};
+
+/**
+ * How far toward an achievement the player has got on a difficulty: the best
+ * single run on it for run, window and boss conditions, everything so far on
+ * any difficulty for lifetime ones. `run` is the run in progress, if any, which
+ * the lifetime figures don't include yet.
+ */
+export const achievementProgress = (
+  condition: AchievementCondition,
+  run: RunStats | null,
+  lifetime: LifetimeStats,
+  difficulty: Difficulty
+): AchievementProgress => {
+  const best = lifetime.difficulties[difficulty];
+  switch (condition.kind) {
+    case 'run':
+      return { value: Math.max(best.bests[condition.stat], run?.values[condition.stat] ?? 0), target: condition.target };
+    case 'lifetime':
+      return { value: lifetime.totals[condition.stat] + (run?.values[condition.stat] ?? 0), target: condition.target };
+    case 'window': {
+      const key = windowKey(condition);
+      return { value: Math.max(best.peaks[key] ?? 0, run?.peaks[key] ?? 0), target: condition.target };
+    }
+    case 'boss': {
+      const beaten = [
+        ...(condition.flawless ? best.flawlessBosses : best.bosses),
+        ...((condition.flawless ? run?.flawlessBosses : run?.bosses) ?? []),
+      ];
+      const boss = condition.boss === 'final' ? FINAL_BOSS : condition.boss;
+      return { value: beaten.some(b => boss === undefined || b === boss) ? 1 : 0, target: 1 };
+    }
+  }
+};
+
+export const isEarned = (
+  achievement: Achievement,
+  run: RunStats | null,
+  lifetime: LifetimeStats,
+  difficulty: Difficulty
+) => {
+  const { value, target } = achievementProgress(achievement.condition, run, lifetime, difficulty);
+  return value >= target;
+};
+
+/**
+ * Watches a game's events and announces each achievement a run earns on its
+ * difficulty, once per run. `lifetime` is read on every check, so it can move
+ * on between runs.
+ */
+export const trackAchievements = (events: EventBus<GameEvent>, lifetime: () => LifetimeStats) => {
+  const announced = new Set<string>();
+  let difficulty: Difficulty | null = null;
+  const unsubscribe = [
+    events.on('RunStarted', event => {
+      announced.clear();
+      difficulty = event.difficulty;
+    }),
+    events.on('StatsUpdated', ({ stats }) => {
+      if (difficulty === null) return;
+      const runDifficulty = difficulty;
+      ACHIEVEMENTS_LIST.forEach(achievement => {
+        if (announced.has(achievement.id) || !isEarned(achievement, stats, lifetime(), runDifficulty)) return;
+        announced.add(achievement.id);
+        events.emit({ type: 'AchievementUnlocked', id: achievement.id });
+      });
+    }),
+  ];
+  return () => unsubscribe.forEach(off => off());
+};
@@ -0,0 +1,270 @@
+import { BulletSpec, Enemy, Entity, Point, WorldState } from '../types';
+import {
+  BULLET_SPECS,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  FORMATION_RING_RADIUS,
+  FORMATION_RING_RATE,
+  SHIELDER_RADIUS
+} from '../constants';
+import { Rng } from './rng';
+import { fireBullet } from './bullets';
+
+export interface BehaviourContext {
+  world: WorldState;
+  rng: Rng;
+  dt: number; // seconds of hostile time this tick, shorter while time-slow runs
+}
+
+// Moves one enemy through one tick, along with anything else it does, e.g. shooting
+export type EnemyBehaviour = (enemy: Enemy, ctx: BehaviourContext) => void;
+
+const BEHAVIOURS = new Map<string, EnemyBehaviour>();
+
+/**
+ * Adds a behaviour under a new key. Enemy types name theirs in ENEMY_CONFIGS
+ * and level scripts can override it per wave, so a new kind of enemy needs a
+ * config entry and, if nothing here fits, one more registered behaviour.
+ */
+export const registerBehaviour = (id: string, behaviour: EnemyBehaviour) => {
+  if (BEHAVIOURS.has(id)) throw new Error(`Duplicate enemy behaviour: ${id}`);
+  BEHAVIOURS.set(id, behaviour);
+};
+
+export const getBehaviour = (id: string) => {
+  const behaviour = BEHAVIOURS.get(id);
+  if (!behaviour) throw new Error(`Unknown enemy behaviour: ${id}`);
+  return behaviour;
+};
+
+export const hasBehaviour = (id: string) => BEHAVIOURS.has(id);
+
+export const listBehaviours = () => [...BEHAVIOURS.keys()];
+
+// Fields every enemy starts with, whichever behaviour it gets
+export const initialBehaviourState = (behaviour: string, x: number, y: number) => ({
+  behaviour,
+  age: 0,
+  mode: 0,
+  modeSince: 0,
+  anchorX: x,
+  anchorY: y,
+  vx: 0,
+  vy: 0,
+  slot: 0,
+  shielded: false,
+  entry: 'top' as const,
+  entered: false,
+  formationId: null,
+});
+
+const setMode = (e: Enemy, mode: number) => {
+  e.mode = mode;
+  e.modeSince = e.age;
+};
+
+const clampX = (e: Enemy) => {
+  e.x = Math.max(0, Math.min(CANVAS_WIDTH - e.width, e.x));
+};
+
+const centerX = (e: Entity) => e.x + e.width / 2;
+const centerY = (e: Entity) => e.y + e.height / 2;
+
+// Enemy shots travel along (sin, cos) of their angle, so 0 is straight down
+const shoot = (world: WorldState, e: Enemy, spec: BulletSpec, angle: number) => {
+  fireBullet(world, spec, centerX(e) - spec.width / 2, e.y + e.height, angle, true);
+};
+
+const angleToPlayer = (world: WorldState, e: Enemy) =>
+  Math.atan2(centerX(world.player) - centerX(e), centerY(world.player) - centerY(e));
+
+const combine = (...behaviours: EnemyBehaviour[]): EnemyBehaviour => (e, ctx) => {
+  for (const behaviour of behaviours) behaviour(e, ctx);
+};
+
+// Straight down at its own speed
+const descend = (): EnemyBehaviour => (e, { dt }) => {
+  e.y += e.speed * dt;
+};
+
+// Down while strafing from side to side around its spawn x
+const sine = (amplitude: number, period: number): EnemyBehaviour => (e, { dt }) => {
+  e.y += e.speed * dt;
+  e.x = e.anchorX + amplitude * Math.sin((e.age / period) * Math.PI * 2);
+  clampX(e);
+};
+
+// Down in sharp diagonal legs, first heading toward the middle of the screen
+const zigzag = (legMs: number, sideSpeed: number): EnemyBehaviour => (e, { dt }) => {
+  const outward = Math.floor(e.age / legMs) % 2 === 1;
+  const inward = e.anchorX < CANVAS_WIDTH / 2 ? 1 : -1;
+  e.x += (outward ? -inward : inward) * e.speed * sideSpeed * dt;
+  e.y += e.speed * dt;
+  clampX(e);
+};
+
+// Glides in slowly, then locks onto where the player is and dives through it
+const swoop = (diveY: number, diveSpeed: number): EnemyBehaviour => (e, { world, dt }) => {
+  if (e.mode === 0) {
+    e.y += e.speed * 0.5 * dt;
+    if (e.y < diveY) return;
+    const angle = angleToPlayer(world, e);
+    e.vx = Math.sin(angle) * e.speed * diveSpeed;
+    e.vy = Math.max(Math.cos(angle), 0.4) * e.speed * diveSpeed;
+    setMode(e, 1);
+  }
+  e.x += e.vx * dt;
+  e.y += e.vy * dt;
+};
+
+// Keeps turning toward the player, at most `turnRate` radians per second, until it is past them
+const kamikaze = (turnRate: number): EnemyBehaviour => (e, { world, dt }) => {
+  if (e.vx === 0 && e.vy === 0) e.vy = e.speed;
+  if (centerY(e) < centerY(world.player)) {
+    const heading = Math.atan2(e.vx, e.vy);
+    const wanted = angleToPlayer(world, e);
+    const turn = Math.atan2(Math.sin(wanted - heading), Math.cos(wanted - heading));
+    const next = heading + Math.sign(turn) * Math.min(Math.abs(turn), turnRate * dt);
+    e.vx = Math.sin(next) * e.speed;
+    e.vy = Math.cos(next) * e.speed;
+  }
+  e.x += e.vx * dt;
+  e.y += e.vy * dt;
+};
+
+// Straight on along the velocity it entered with
+const strafe = (): EnemyBehaviour => (e, { dt }) => {
+  e.x += e.vx * dt;
+  e.y += e.vy * dt;
+};
+
+/**
+ * Weaves from side to side across its entry direction. Every member of a
+ * snake starts from the same anchor and trails the head by its slot in ms,
+ * so they all trace the same curve.
+ */
+const snake = (amplitude: number, period: number): EnemyBehaviour => e => {
+  const t = (e.age - e.slot) / 1000;
+  const length = Math.hypot(e.vx, e.vy) || 1;
+  const weave = amplitude * Math.sin((t * 1000 / period) * Math.PI * 2);
+  e.x = e.anchorX + e.vx * t - (e.vy / length) * weave;
+  e.y = e.anchorY + e.vy * t + (e.vx / length) * weave;
+};
+
+// Circles a centre that starts at the anchor and drifts along the entry velocity; the slot is its angle around it
+const orbit = (radius: number, rate: number): EnemyBehaviour => e => {
+  const t = e.age / 1000;
+  const angle = e.slot + rate * t;
+  e.x = e.anchorX + e.vx * t + radius * Math.cos(angle);
+  e.y = e.anchorY + e.vy * t + radius * Math.sin(angle);
+};
+
+/**
+ * Flies down to `holdY`, holds there for `holdMs` (taking an aimed shot every
+ * `fireInterval` ms, if given) and then pulls back up off the screen.
+ */
+const hover = (holdY: number, holdMs: number, fireInterval: number | null): EnemyBehaviour => (e, { world, dt }) => {
+  if (e.mode === 0) {
+    e.y += e.speed * dt;
+    if (e.y >= holdY) {
+      e.y = holdY;
+      setMode(e, 1);
+    }
+  } else if (e.mode === 1) {
+    if (fireInterval !== null && world.time - (e.attackTimer ?? 0) > fireInterval) {
+      shoot(world, e, BULLET_SPECS.RANGED, angleToPlayer(world, e));
+      e.attackTimer = world.time;
+    }
+    if (e.age - e.modeSince >= holdMs) setMode(e, 2);
+  } else {
+    e.y -= e.speed * dt;
+  }
+};
+
+// Catmull-Rom curve through `points`, flattened into short straight pieces
+const sampleSpline = (points: Point[], steps: number): Point[] => {
+  const at = (i: number) => points[Math.max(0, Math.min(points.length - 1, i))];
+  const samples: Point[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const [p0, p1, p2, p3] = [at(i - 1), at(i), at(i + 1), at(i + 2)];
+    for (let s = 0; s < steps; s++) {
+      const t = s / steps;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const blend = (a: number, b: number, c: number, d: number) =>
+        0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+      samples.push({ x: blend(p0.x, p1.x, p2.x, p3.x), y: blend(p0.y, p1.y, p2.y, p3.y) });
+    }
+  }
+  samples.push(points[points.length - 1]);
+  return samples;
+};
+
+/**
+ * Follows a smooth path through `points` at the enemy's own speed, then keeps
+ * going straight down. Point x is relative to the spawn x, y is on screen.
+ * The mode holds the index of the path piece the enemy is on.
+ */
+const spline = (points: Point[]): EnemyBehaviour => {
+  const samples = sampleSpline(points, 12);
+  const distances = [0];
+  for (let i = 1; i < samples.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y));
+  }
+  const length = distances[distances.length - 1];
+
+  return (e, { dt }) => {
+    const travelled = (e.age / 1000) * e.speed;
+    if (travelled >= length) {
+      e.y += e.speed * dt;
+      return;
+    }
+    while (distances[e.mode + 1] < travelled) e.mode += 1;
+    const from = samples[e.mode];
+    const to = samples[e.mode + 1];
+    const t = (travelled - distances[e.mode]) / (distances[e.mode + 1] - distances[e.mode] || 1);
+    e.x = e.anchorX + from.x + (to.x - from.x) * t;
+    e.y = from.y + (to.y - from.y) * t;
+    clampX(e);
+  };
+};
+
+// Drops a slow-drifting mine every `interval` ms while over the upper part of the screen
+const layMines = (interval: number): EnemyBehaviour => (e, { world }) => {
+  if (e.y < 0 || e.y > CANVAS_HEIGHT * 0.7 || world.time - (e.attackTimer ?? 0) <= interval) return;
+  shoot(world, e, BULLET_SPECS.MINE, 0);
+  e.attackTimer = world.time;
+};
+
+// Neighbours within `radius` deflect player shots; shielders never cover each other
+const protectNeighbours = (radius: number): EnemyBehaviour => (e, { world }) => {
+  for (const other of world.enemies) {
+    if (other.behaviour === e.behaviour || other.health <= 0) continue;
+    const dx = centerX(other) - centerX(e);
+    const dy = centerY(other) - centerY(e);
+    if (dx * dx + dy * dy <= radius * radius) other.shielded = true;
+  }
+};
+
+const S_CURVE: Point[] = [
+  { x: 0, y: -40 },
+  { x: 0, y: 100 },
+  { x: 160, y: 220 },
+  { x: 0, y: 340 },
+  { x: -160, y: 460 },
+  { x: 0, y: 580 },
+  { x: 0, y: CANVAS_HEIGHT + 60 },
+];
+
+registerBehaviour('descend', descend());
+registerBehaviour('sine', sine(70, 2200));
+registerBehaviour('zigzag', zigzag(900, 1.2));
+registerBehaviour('swoop', swoop(220, 1.5));
+registerBehaviour('kamikaze', kamikaze(2.2));
+registerBehaviour('hover', hover(200, 8000, 2000));
+registerBehaviour('strafe', strafe());
+registerBehaviour('snake', snake(60, 1600));
+registerBehaviour('orbit', orbit(FORMATION_RING_RADIUS, FORMATION_RING_RATE));
+registerBehaviour('spline', spline(S_CURVE));
+registerBehaviour('minelayer', combine(spline(S_CURVE), layMines(1200)));
+registerBehaviour('shielder', combine(hover(140, 15000, null), protectNeighbours(SHIELDER_RADIUS)));
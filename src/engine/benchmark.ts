@@ -0,0 +1,116 @@
+import { EnemyType, WorldState } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, ENEMY_CONFIGS, BULLET_SPECS } from '../constants';
+import { Rng, createRng, nextRandom, randomInt } from './rng';
+import { EMPTY_INPUT, createBoss, createWorld, step } from './simulation';
+import { getBossConfig } from './modes';
+import { fireBullet } from './bullets';
+import { initialBehaviourState } from './behaviours';
+
+export interface BenchmarkScene {
+  enemies: number;
+  bullets: number;
+  bosses: number;
+}
+
+export interface BenchmarkTimings {
+  samples: number;
+  avgMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+// A late-game boss fight: three bosses, escorts and a screen full of bullets
+export const DEFAULT_BENCHMARK_SCENE: BenchmarkScene = {
+  enemies: 60,
+  bullets: 1500,
+  bosses: 3,
+};
+
+const ENEMY_TYPES = Object.values(EnemyType);
+
+/**
+ * Refills the scene back to its target counts. Called after every tick so
+ * kills, escapes and expired bullets don't thin it out while it is measured.
+ */
+export const topUpBenchmarkScene = (world: WorldState, rng: Rng, scene: BenchmarkScene) => {
+  world.bosses.forEach(boss => {
+    boss.health = boss.maxHealth;
+    boss.parts.forEach(part => part.health = part.maxHealth);
+  });
+
+  while (world.enemies.length < scene.enemies) {
+    const type = ENEMY_TYPES[randomInt(rng, ENEMY_TYPES.length)];
+    const config = ENEMY_CONFIGS[type];
+    const x = nextRandom(rng) * (CANVAS_WIDTH - config.width);
+    const y = nextRandom(rng) * CANVAS_HEIGHT * 0.6;
+    world.enemies.push({
+      id: `bench_${world.nextId++}`,
+      type,
+      x,
+      y,
+      width: config.width,
+      height: config.height,
+      speed: config.speed,
+      health: 1000,
+      maxHealth: 1000,
+      scoreValue: config.scoreValue,
+      attackTimer: world.time,
+      ...initialBehaviourState(config.behaviour, x, y),
+    });
+  }
+
+  while (world.bullets.length < scene.bullets) {
+    const isEnemy = nextRandom(rng) < 0.5;
+    fireBullet(
+      world,
+      isEnemy ? BULLET_SPECS.RING : BULLET_SPECS.PLAYER,
+      nextRandom(rng) * CANVAS_WIDTH,
+      nextRandom(rng) * CANVAS_HEIGHT,
+      (nextRandom(rng) - 0.5) * Math.PI * 2,
+      isEnemy
+    );
+  }
+};
+
+export const createBenchmarkWorld = (rng: Rng, scene: BenchmarkScene): WorldState => {
+  const world = createWorld();
+  world.level = 30;
+  world.lastLevelHealed = 30;
+  world.bossKey = 30;
+  // Nothing schedules the end of this invincibility, so the player survives the whole run
+  world.player.invincible = true;
+
+  const config = getBossConfig(world.bossKey);
+  for (let i = 0; i < scene.bosses; i++) {
+    world.bosses.push(createBoss(config, i, scene.bosses, 50, 0));
+  }
+
+  topUpBenchmarkScene(world, rng, scene);
+  return world;
+};
+
+export const summarizeTimings = (samples: number[]): BenchmarkTimings => {
+  if (samples.length === 0) return { samples: 0, avgMs: 0, p95Ms: 0, maxMs: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    samples: sorted.length,
+    avgMs: sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length,
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    maxMs: sorted[sorted.length - 1],
+  };
+};
+
+// Times `ticks` simulation steps of the scene without rendering
+export const measureUpdate = (scene: BenchmarkScene, ticks = 600, seed = 1): BenchmarkTimings => {
+  const rng = createRng(seed);
+  const world = createBenchmarkWorld(rng, scene);
+  const samples: number[] = [];
+
+  for (let tick = 1; tick <= ticks; tick++) {
+    const start = performance.now();
+    step(world, EMPTY_INPUT, rng, tick);
+    samples.push(performance.now() - start);
+    topUpBenchmarkScene(world, rng, scene);
+  }
+  return summarizeTimings(samples);
+};
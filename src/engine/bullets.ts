@@ -0,0 +1,73 @@
+import { Bullet, BulletSpec, WorldState } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, DIFFICULTY_PROFILES } from '../constants';
+import { createPool, removeWhere } from './pool';
+
+// Only the objects are reused; each shot takes its id from the world, so a cloned or restored world
+// numbers its bullets exactly as the original did
+const bulletPool = createPool<Bullet>(() => ({
+  id: '',
+  x: 0,
+  y: 0,
+  prevX: 0,
+  prevY: 0,
+  width: 0,
+  height: 0,
+  speed: 0,
+  damage: 0,
+  angle: 0,
+  isEnemy: false,
+  spent: false,
+  baseSpeed: 0,
+  firedAt: 0,
+  speedCurve: null,
+  pierce: 0,
+  hitIds: [],
+  homing: 0,
+  sway: 0,
+  swayRate: 0,
+  color: null,
+  grazed: false,
+}));
+
+// Enemy shots travel at the difficulty's bullet speed
+export const fireBullet = (world: WorldState, spec: BulletSpec, x: number, y: number, angle: number, isEnemy: boolean) => {
+  const bullet = bulletPool.acquire();
+  bullet.id = `bullet_${world.nextId++}`;
+  const speed = isEnemy ? spec.speed * DIFFICULTY_PROFILES[world.difficulty].enemyBulletSpeed : spec.speed;
+  bullet.x = x;
+  bullet.y = y;
+  bullet.prevX = x;
+  bullet.prevY = y;
+  bullet.width = spec.width;
+  bullet.height = spec.height;
+  bullet.speed = speed;
+  bullet.damage = spec.damage;
+  bullet.angle = angle;
+  bullet.isEnemy = isEnemy;
+  bullet.spent = false;
+  bullet.baseSpeed = speed;
+  bullet.firedAt = world.time;
+  bullet.speedCurve = null;
+  bullet.pierce = 0;
+  bullet.hitIds.length = 0;
+  bullet.homing = 0;
+  bullet.sway = 0;
+  bullet.swayRate = 0;
+  bullet.color = spec.color ?? null;
+  bullet.grazed = false;
+  world.bullets.push(bullet);
+  return bullet;
+};
+
+const isGone = (b: Bullet) =>
+  b.spent || b.y <= -50 || b.y >= CANVAS_HEIGHT + 50 || b.x <= -50 || b.x >= CANVAS_WIDTH + 50;
+
+// Drops bullets that hit something or left the screen, returning them to the pool
+export const sweepBullets = (world: WorldState) => {
+  removeWhere(world.bullets, isGone, bulletPool.release);
+};
+
+export const releaseAllBullets = (world: WorldState) => {
+  world.bullets.forEach(bulletPool.release);
+  world.bullets.length = 0;
+};
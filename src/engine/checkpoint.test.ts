@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InputFrame, WorldState } from '../types';
+import { createWorld, step } from './simulation';
+import { Rng, createRng } from './rng';
+import { createRecorder } from './replay';
+import { createCheckpoint, parseCheckpoint, restoreCheckpoint, serializeCheckpoint } from './checkpoint';
+import { scriptedInput } from './testing';
+
+const play = (world: WorldState, rng: Rng, from: number, to: number, record?: (input: InputFrame) => void) => {
+  for (let tick = from; tick <= to && !world.outcome; tick++) {
+    record?.(scriptedInput(tick));
+    step(world, scriptedInput(tick), rng, tick);
+  }
+};
+
+describe('checkpoints', () => {
+  it('resume a run exactly where it was saved', () => {
+    const seed = 99;
+    const world = createWorld({});
+    const rng = createRng(seed);
+    const recorder = createRecorder(seed);
+    play(world, rng, 1, 1800, input => recorder.record(input));
+    const saved = serializeCheckpoint(createCheckpoint(seed, 1800, rng, world, recorder));
+
+    play(world, rng, 1801, 3600);
+    const run = restoreCheckpoint(parseCheckpoint(saved));
+    assert.equal(run.tick, 1800);
+    assert.equal(run.recording.ticks, 1800);
+    play(run.world, run.rng, run.tick + 1, 3600);
+    assert.deepEqual(run.world, world);
+  });
+
+  it('are copied rather than shared with the running world', () => {
+    const world = createWorld({});
+    const rng = createRng(1);
+    const checkpoint = createCheckpoint(1, 0, rng, world, createRecorder(1));
+    world.score = 500;
+    assert.equal(checkpoint.world.score, 0);
+    restoreCheckpoint(checkpoint).world.score = 700;
+    assert.equal(checkpoint.world.score, 0);
+  });
+
+  it('reject saves from another version or missing state', () => {
+    const checkpoint = createCheckpoint(1, 0, createRng(1), createWorld({}), createRecorder(1));
+    assert.throws(() => parseCheckpoint('nope'), /JSON/);
+    assert.throws(() => parseCheckpoint(JSON.stringify({ ...checkpoint, format: 'other' })), /不是/);
+    assert.throws(() => parseCheckpoint(JSON.stringify({ ...checkpoint, version: 1 })), /版本/);
+    assert.throws(() => parseCheckpoint(JSON.stringify({ ...checkpoint, world: { ...checkpoint.world, bullets: null } })), /损坏/);
+    assert.throws(() => parseCheckpoint(JSON.stringify({ ...checkpoint, tick: 5 })), /损坏/);
+  });
+});
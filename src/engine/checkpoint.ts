@@ -0,0 +1,75 @@
+import { Checkpoint, WorldState } from '../types';
+import { Rng, createRng } from './rng';
+import { Recorder } from './replay';
+import { isJsonObject } from './schema';
+
+export const CHECKPOINT_FORMAT = 'lsr-checkpoint';
+export const CHECKPOINT_VERSION = 15;
+
+export interface RestoredRun {
+  seed: number;
+  tick: number;
+  rng: Rng;
+  world: WorldState;
+  recording: Checkpoint['recording'];
+}
+
+export const createCheckpoint = (
+  seed: number,
+  tick: number,
+  rng: Rng,
+  world: WorldState,
+  recorder: Recorder
+): Checkpoint => ({
+  format: CHECKPOINT_FORMAT,
+  version: CHECKPOINT_VERSION,
+  savedAt: new Date().toISOString(),
+  seed,
+  tick,
+  rngState: rng.state,
+  world: structuredClone(world),
+  recording: recorder.snapshot(),
+});
+
+export const serializeCheckpoint = (checkpoint: Checkpoint): string => JSON.stringify(checkpoint);
+
+export const parseCheckpoint = (text: string): Checkpoint => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('存档不是有效的 JSON');
+  }
+  if (!isJsonObject(data) || data.format !== CHECKPOINT_FORMAT) {
+    throw new Error('不是 LSR 存档');
+  }
+  if (data.version !== CHECKPOINT_VERSION) {
+    throw new Error(`不支持的存档版本: ${data.version}`);
+  }
+  const { world, recording } = data;
+  const isCount = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+  if (
+    !isCount(data.seed) ||
+    !isCount(data.tick) ||
+    !isCount(data.rngState) ||
+    !isJsonObject(world) ||
+    !isJsonObject(world.player) ||
+    !['enemies', 'formations', 'bosses', 'bullets', 'powerUps', 'schedule'].every(key => Array.isArray(world[key])) ||
+    !isJsonObject(recording) ||
+    recording.ticks !== data.tick ||
+    !Array.isArray(recording.input) ||
+    !Array.isArray(recording.continues)
+  ) {
+    throw new Error('存档已损坏');
+  }
+  return data as unknown as Checkpoint;
+};
+
+// Fresh copies of everything needed to keep simulating from the checkpoint
+export const restoreCheckpoint = (checkpoint: Checkpoint): RestoredRun => ({
+  seed: checkpoint.seed,
+  tick: checkpoint.tick,
+  rng: createRng(checkpoint.rngState),
+  world: structuredClone(checkpoint.world),
+  recording: structuredClone(checkpoint.recording),
+});
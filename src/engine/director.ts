@@ -0,0 +1,110 @@
+import { DirectorKnob, DirectorState, WorldState } from '../types';
+import {
+  DIRECTOR_BOUNDS,
+  DIRECTOR_CALM_TIME,
+  DIRECTOR_DEADBAND,
+  DIRECTOR_REVIEW_INTERVAL,
+  DIRECTOR_STEP,
+  DIRECTOR_TARGET_KILL_RATE,
+  DIRECTOR_WINDOW
+} from '../constants';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Knobs move in whole steps; rounding keeps them from drifting off the grid
+const roundKnob = (value: number) => Math.round(value * 100) / 100;
+
+// Which way each knob turns for a player who is cruising
+const KNOB_DIRECTIONS: Record<DirectorKnob, number> = {
+  spawnRate: 1,
+  enemyHealth: 1,
+  powerUpRate: -1,
+};
+
+export const createDirector = (): DirectorState => ({
+  spawnRate: 1,
+  enemyHealth: 1,
+  powerUpRate: 1,
+  spawns: [],
+  kills: [],
+  hits: [],
+  lastHitAt: 0,
+  nextReview: DIRECTOR_REVIEW_INTERVAL,
+  log: [],
+});
+
+// 1 when the assist is off, so callers can multiply unconditionally
+export const directorScale = (world: WorldState, knob: DirectorKnob) => world.director?.[knob] ?? 1;
+
+export const noteSpawn = (world: WorldState) => {
+  world.director?.spawns.push(world.time);
+};
+
+export const noteKill = (world: WorldState) => {
+  world.director?.kills.push(world.time);
+};
+
+export const noteHit = (world: WorldState) => {
+  if (!world.director) return;
+  world.director.hits.push(world.time);
+  world.director.lastHitAt = world.time;
+};
+
+/**
+ * How the player is doing, from -1 (struggling) to 1 (cruising): the average
+ * of their remaining health, how long it has been since they were hit, how
+ * many hits they took lately and what share of recent enemies they shot down.
+ * Kill rate sits out while nothing has spawned, e.g. during a boss fight.
+ */
+const judgePlayer = (world: WorldState, director: DirectorState) => {
+  const { player } = world;
+  const health = (player.health / player.maxHealth) * 2 - 1;
+  const calm = Math.min(1, (world.time - director.lastHitAt) / DIRECTOR_CALM_TIME) * 2 - 1;
+  const damage = 1 - Math.min(2, director.hits.length);
+  const signals = [health, calm, damage];
+  if (director.spawns.length > 0) {
+    const killRate = Math.min(1, director.kills.length / director.spawns.length);
+    signals.push(clamp((killRate - DIRECTOR_TARGET_KILL_RATE) / (1 - DIRECTOR_TARGET_KILL_RATE), -1, 1));
+  }
+  return signals.reduce((sum, s) => sum + s, 0) / signals.length;
+};
+
+/**
+ * Reviews the run every DIRECTOR_REVIEW_INTERVAL and moves each knob one
+ * step within its bounds: a player who is cruising gets more and tougher
+ * enemies and fewer power-ups, one who is struggling the reverse. Reviews
+ * that change anything are logged on the director.
+ */
+export const reviewDirector = (world: WorldState) => {
+  const director = world.director;
+  if (!director || world.time < director.nextReview) return;
+  director.nextReview = world.time + DIRECTOR_REVIEW_INTERVAL;
+
+  const since = world.time - DIRECTOR_WINDOW;
+  const isRecent = (t: number) => t > since;
+  director.spawns = director.spawns.filter(isRecent);
+  director.kills = director.kills.filter(isRecent);
+  director.hits = director.hits.filter(isRecent);
+
+  const skill = judgePlayer(world, director);
+  if (Math.abs(skill) < DIRECTOR_DEADBAND) return;
+
+  let changed = false;
+  (Object.keys(KNOB_DIRECTIONS) as DirectorKnob[]).forEach(knob => {
+    const [min, max] = DIRECTOR_BOUNDS[knob];
+    const value = roundKnob(clamp(director[knob] + Math.sign(skill) * KNOB_DIRECTIONS[knob] * DIRECTOR_STEP, min, max));
+    changed ||= value !== director[knob];
+    director[knob] = value;
+  });
+
+  if (changed) {
+    director.log.push({
+      time: world.time,
+      level: world.level,
+      skill: roundKnob(skill),
+      spawnRate: director.spawnRate,
+      enemyHealth: director.enemyHealth,
+      powerUpRate: director.powerUpRate,
+    });
+  }
+};
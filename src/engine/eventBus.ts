@@ -0,0 +1,41 @@
+// Handler for one kind of event, narrowed to that event's shape
+export type EventHandler<E extends { type: string }, T extends E['type']> = (event: Extract<E, { type: T }>) => void;
+
+export interface EventBus<E extends { type: string }> {
+  // Both subscribe calls return the matching unsubscribe, ready to hand back from a React effect
+  on: <T extends E['type']>(type: T, handler: EventHandler<E, T>) => () => void;
+  onAny: (handler: (event: E) => void) => () => void;
+  emit: (event: E) => void;
+}
+
+/**
+ * Synchronous publish/subscribe for a union of `{ type }` events. Handlers run
+ * in the order they subscribed; one added or removed while an event is being
+ * delivered takes effect from the next event.
+ */
+export const createEventBus = <E extends { type: string }>(): EventBus<E> => {
+  const handlers = new Map<string, ((event: E) => void)[]>();
+  const anyHandlers: ((event: E) => void)[] = [];
+
+  const remove = (list: ((event: E) => void)[], handler: (event: E) => void) => () => {
+    const index = list.indexOf(handler);
+    if (index !== -1) list.splice(index, 1);
+  };
+
+  return {
+    on: (type, handler) => {
+      const list = handlers.get(type) ?? [];
+      handlers.set(type, list);
+      const wrapped = handler as (event: E) => void;
+      list.push(wrapped);
+      return remove(list, wrapped);
+    },
+    onAny: handler => {
+      anyHandlers.push(handler);
+      return remove(anyHandlers, handler);
+    },
+    emit: event => {
+      [...(handlers.get(event.type) ?? []), ...anyHandlers].forEach(handler => handler(event));
+    },
+  };
+};
@@ -0,0 +1,97 @@
+import { Enemy, EntryEdge, Formation, FormationShape, Point, WorldState } from '../types';
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  ENTRY_DIRECTIONS,
+  ENTRY_LEAD,
+  FORMATION_GAP,
+  FORMATION_RING_RADIUS,
+  FORMATION_SNAKE_LAG
+} from '../constants';
+import { removeWhere } from './pool';
+
+export const FORMATION_SHAPES: FormationShape[] = ['v', 'line', 'circle', 'snake'];
+export const ENTRY_EDGES: EntryEdge[] = ['top', 'left', 'right', 'bottom'];
+
+/**
+ * Top-left corner an enemy of the given size starts from to fly in across
+ * `edge`. `along` is its x on the top and bottom edges and its y on the sides.
+ */
+export const entryPoint = (edge: EntryEdge, along: number, width: number, height: number): Point => {
+  switch (edge) {
+    case 'top':
+      return { x: along, y: -height };
+    case 'bottom':
+      return { x: along, y: CANVAS_HEIGHT + ENTRY_LEAD };
+    case 'left':
+      return { x: -width - ENTRY_LEAD, y: along };
+    case 'right':
+      return { x: CANVAS_WIDTH + ENTRY_LEAD, y: along };
+  }
+};
+
+// Where one member starts and the behaviour that keeps it in shape
+export interface FormationSlot {
+  x: number;
+  y: number;
+  slot: number;
+  behaviour: string;
+}
+
+/**
+ * Starting places for a formation of `count` enemies entering across `edge`,
+ * centred on `along`. Everyone starts off screen: V and line members fly
+ * straight in, circle members turn around a shared centre and snake members
+ * share one start point and trail each other along the same curve.
+ */
+export const formationSlots = (
+  shape: FormationShape,
+  count: number,
+  edge: EntryEdge,
+  along: number,
+  width: number,
+  height: number
+): FormationSlot[] => {
+  const vertical = edge === 'top' || edge === 'bottom';
+  const origin = entryPoint(edge, along - (vertical ? width : height) / 2, width, height);
+  const forward = ENTRY_DIRECTIONS[edge];
+  // `back` is px behind the lead along the flight path, `side` px across it
+  const place = (back: number, side: number) => ({
+    x: origin.x - forward.x * back + (vertical ? side : 0),
+    y: origin.y - forward.y * back + (vertical ? 0 : side),
+  });
+
+  return Array.from({ length: count }, (_, i) => {
+    switch (shape) {
+      case 'v': {
+        const rank = Math.ceil(i / 2);
+        return { ...place(rank * FORMATION_GAP * 0.8, (i % 2 === 0 ? 1 : -1) * rank * FORMATION_GAP), slot: 0, behaviour: 'strafe' };
+      }
+      case 'line':
+        return { ...place(0, (i - (count - 1) / 2) * FORMATION_GAP), slot: 0, behaviour: 'strafe' };
+      case 'circle':
+        return { ...place(FORMATION_RING_RADIUS, 0), slot: (i / count) * Math.PI * 2, behaviour: 'orbit' };
+      case 'snake':
+        return { ...origin, slot: i * FORMATION_SNAKE_LAG, behaviour: 'snake' };
+    }
+  });
+};
+
+export const createFormation = (world: WorldState, shape: FormationShape, size: number): Formation => {
+  const formation = { id: `formation_${world.nextId++}`, shape, size, killed: 0 };
+  world.formations.push(formation);
+  return formation;
+};
+
+// Counts a member shot down; returns its formation once the last member falls
+export const recordFormationKill = (world: WorldState, enemy: Enemy): Formation | null => {
+  const formation = world.formations.find(f => f.id === enemy.formationId);
+  if (!formation) return null;
+  formation.killed += 1;
+  return formation.killed === formation.size ? formation : null;
+};
+
+// Forgets formations with nobody left in flight, whether they were wiped out or got away
+export const pruneFormations = (world: WorldState) => {
+  removeWhere(world.formations, f => !world.enemies.some(e => e.formationId === f.id));
+};
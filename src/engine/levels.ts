@@ -0,0 +1,68 @@
+import { LevelScript, WorldState } from '../types';
+import { BUNDLED_LEVELS } from '../levels';
+import levelSchema from '../levels/level.schema.json';
+import { JsonSchema, validateSchema } from './schema';
+import { hasBehaviour } from './behaviours';
+
+export const LEVEL_SCHEMA = levelSchema as JsonSchema;
+
+/**
+ * Checks a parsed level file against the schema and the timeline rules the
+ * schema can't express. Waves come back sorted by start time.
+ */
+export const parseLevelScript = (data: unknown): LevelScript => {
+  const errors = validateSchema(LEVEL_SCHEMA, data);
+  if (errors.length > 0) {
+    throw new Error(`关卡文件无效: ${errors.join('; ')}`);
+  }
+  const script = data as LevelScript;
+  const late = script.waves.findIndex(wave => wave.at >= script.length);
+  if (late !== -1) {
+    throw new Error(`关卡文件无效: $.waves[${late}].at: 超出关卡时长 ${script.length}`);
+  }
+  const unknown = script.waves.findIndex(wave => wave.behaviour !== undefined && !hasBehaviour(wave.behaviour));
+  if (unknown !== -1) {
+    throw new Error(`关卡文件无效: $.waves[${unknown}].behaviour: 未知的行为 ${script.waves[unknown].behaviour}`);
+  }
+  return {
+    level: script.level,
+    name: script.name,
+    length: script.length,
+    loop: script.loop,
+    boss: script.boss,
+    waves: [...script.waves].sort((a, b) => a.at - b.at),
+  };
+};
+
+export const parseLevelFile = (text: string): LevelScript => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('关卡文件不是有效的 JSON');
+  }
+  return parseLevelScript(data);
+};
+
+// Pretty-printed with a $schema reference so editors can check the file as it is written
+export const serializeLevelScript = (script: LevelScript): string =>
+  JSON.stringify({ $schema: './level.schema.json', ...script }, null, 2) + '\n';
+
+// Bundled scripts are validated once at startup so a broken file fails loudly
+const LEVEL_SCRIPTS = new Map<number, LevelScript>();
+BUNDLED_LEVELS.forEach(data => {
+  const script = parseLevelScript(data);
+  if (LEVEL_SCRIPTS.has(script.level)) {
+    throw new Error(`Duplicate level script for level ${script.level}`);
+  }
+  LEVEL_SCRIPTS.set(script.level, script);
+});
+
+export const getLevelScript = (level: number): LevelScript | undefined => LEVEL_SCRIPTS.get(level);
+
+export const listLevelScripts = (): LevelScript[] =>
+  [...LEVEL_SCRIPTS.values()].sort((a, b) => a.level - b.level);
+
+// The script driving the world's current level, if any
+export const getActiveScript = (world: WorldState): LevelScript | undefined =>
+  world.levelOverride?.level === world.level ? world.levelOverride : getLevelScript(world.level);
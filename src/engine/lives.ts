@@ -0,0 +1,59 @@
+import { SimEvent, WorldState } from '../types';
+import { EXTRA_LIFE_EVERY, MAX_LIVES, RESPAWN_INVINCIBILITY } from '../constants';
+import { rescheduleTask } from './scheduler';
+import { breakCombo, createScoreBreakdown } from './scoring';
+import { releaseAllBullets } from './bullets';
+import { endRun } from './modes';
+
+// Back to full health, briefly untouchable, with nothing already in the air
+const refit = (world: WorldState) => {
+  world.player.health = world.player.maxHealth;
+  world.player.invincible = true;
+  rescheduleTask(world, RESPAWN_INVINCIBILITY, { kind: 'InvincibilityEnd' });
+  releaseAllBullets(world);
+};
+
+// Every milestone passed earns a spare ship; milestones past the cap are spent anyway
+export const awardExtraLives = (world: WorldState, events: SimEvent[]) => {
+  while (world.score >= world.nextLifeAt) {
+    world.nextLifeAt += EXTRA_LIFE_EVERY;
+    if (world.lives < MAX_LIVES) {
+      world.lives += 1;
+      events.push({ type: 'LivesChanged', lives: world.lives });
+    }
+  }
+};
+
+// The hull is gone: a spare ship takes over where it fell, or the run ends
+export const loseShip = (world: WorldState, events: SimEvent[]) => {
+  events.push({ type: 'ShipLost', boss: world.bosses.length > 0 ? world.bossKey : null });
+  if (world.lives === 0) {
+    endRun(world, 'destroyed', events);
+    return;
+  }
+  world.lives -= 1;
+  refit(world);
+  events.push({ type: 'LivesChanged', lives: world.lives });
+  events.push({ type: 'HealthChanged', health: world.player.health });
+};
+
+export const canContinue = (world: WorldState) => world.outcome === 'destroyed' && world.credits > 0;
+
+/**
+ * Spends a credit to pick a lost run back up at the same level. The score
+ * starts again from zero; what it held is kept aside so levelling up still
+ * counts it, and score milestones start over.
+ */
+export const continueRun = (world: WorldState) => {
+  if (!canContinue(world)) return false;
+  world.credits -= 1;
+  world.continues += 1;
+  world.forfeitedScore += world.score;
+  world.score = 0;
+  world.scoreBreakdown = createScoreBreakdown();
+  world.nextLifeAt = EXTRA_LIFE_EVERY;
+  world.outcome = null;
+  breakCombo(world);
+  refit(world);
+  return true;
+};
@@ -0,0 +1,58 @@
+import { BossConfig, GameMode, RunOutcome, SimEvent, WorldState } from '../types';
+import { BOSS_CONFIGS, ENDLESS_BOSS_GROWTH, ENDLESS_BOSS_INTERVAL, TIME_ATTACK_LENGTH } from '../constants';
+
+// Bosses in the order the campaign meets them; Boss Rush fights them in the same order
+export const BOSS_LEVELS = Object.keys(BOSS_CONFIGS).map(Number).sort((a, b) => a - b);
+export const FINAL_BOSS = BOSS_LEVELS[BOSS_LEVELS.length - 1];
+
+// Endless bosses past the final one take turns wearing the regular bosses' configs
+export const bossConfigKey = (key: number): number => {
+  if (BOSS_CONFIGS[key]) return key;
+  if (key <= FINAL_BOSS) return FINAL_BOSS;
+  return BOSS_LEVELS[Math.floor(key / ENDLESS_BOSS_INTERVAL) % BOSS_LEVELS.length];
+};
+
+export const getBossConfig = (key: number): BossConfig => BOSS_CONFIGS[bossConfigKey(key)];
+
+// Health multiplier for an Endless boss; grows with every one past the final boss
+export const bossHealthScale = (key: number) =>
+  key > FINAL_BOSS ? 1 + ((key - FINAL_BOSS) / ENDLESS_BOSS_INTERVAL) * ENDLESS_BOSS_GROWTH : 1;
+
+// BOSS_CONFIGS key of the boss a level without a script ends with, if any
+export const scheduledBoss = (world: WorldState): number | null => {
+  switch (world.mode) {
+    case GameMode.BOSS_RUSH:
+      // Level counts the fights, so the rush always has a boss due until it runs out
+      return BOSS_LEVELS[world.level - 1] ?? null;
+    case GameMode.ENDLESS:
+      if (world.level > FINAL_BOSS) return world.level % ENDLESS_BOSS_INTERVAL === 0 ? world.level : null;
+      break;
+  }
+  return BOSS_LEVELS.includes(world.level) ? world.level : null;
+};
+
+// Boss Rush is nothing but boss fights: no waves, no random spawns and no levelling up by score
+export const hasRegularEnemies = (world: WorldState) => world.mode !== GameMode.BOSS_RUSH;
+
+// The campaign is won by beating its final boss, Boss Rush by beating every boss
+export const isVictory = (world: WorldState) => {
+  switch (world.mode) {
+    case GameMode.CAMPAIGN:
+      return world.bossKey === FINAL_BOSS;
+    case GameMode.BOSS_RUSH:
+      return world.level > BOSS_LEVELS.length;
+    default:
+      return false;
+  }
+};
+
+// ms left on a Time Attack clock; null in modes without one
+export const timeLeft = (world: WorldState): number | null =>
+  world.mode === GameMode.TIME_ATTACK ? Math.max(0, TIME_ATTACK_LENGTH - world.time) : null;
+
+// Ends the run once; later calls in the same tick keep the first outcome
+export const endRun = (world: WorldState, outcome: RunOutcome, events: SimEvent[]) => {
+  if (world.outcome) return;
+  world.outcome = outcome;
+  events.push({ type: 'RunEnded', outcome, credits: world.credits });
+};
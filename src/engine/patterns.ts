@@ -0,0 +1,106 @@
+import { Boss, BulletEmitter, Entity, ScheduledTask, SpeedKey, WorldState } from '../types';
+import { BULLET_PATTERNS, BULLET_SPECS, CANVAS_WIDTH } from '../constants';
+import { Rng, randomInt } from './rng';
+import { fireBullet } from './bullets';
+import { scheduleTask } from './scheduler';
+
+type VolleyTask = Extract<ScheduledTask, { kind: 'BossVolley' }>;
+
+// Speed multiplier `age` ms after firing, held at the first and last keys outside the curve
+export const sampleSpeedCurve = (curve: SpeedKey[], age: number) => {
+  if (age <= curve[0].at) return curve[0].speed;
+  for (let i = 1; i < curve.length; i++) {
+    const to = curve[i];
+    if (age < to.at) {
+      const from = curve[i - 1];
+      return from.speed + (to.speed - from.speed) * ((age - from.at) / (to.at - from.at));
+    }
+  }
+  return curve[curve.length - 1].speed;
+};
+
+const getPattern = (id: string) => {
+  const pattern = BULLET_PATTERNS[id];
+  if (!pattern) throw new Error(`Unknown bullet pattern: ${id}`);
+  return pattern;
+};
+
+const fireVolley = (world: WorldState, rng: Rng, boss: Boss, emitter: BulletEmitter, volley: number) => {
+  let source: Entity = boss;
+  if (emitter.origin) {
+    const part = boss.parts.find(p => p.partId === emitter.origin);
+    if (!part) return; // destroyed, or this boss never had it
+    source = part;
+  }
+  const spec = BULLET_SPECS[emitter.bullet];
+  const centerX = source.x + source.width / 2;
+  const centerY = source.y + source.height / 2;
+  const turn = (emitter.angle ?? 0) + (emitter.spin ?? 0) * volley;
+
+  const emit = (x: number, y: number, angle: number) => {
+    const bullet = fireBullet(world, spec, x, y, angle, true);
+    if (emitter.speedCurve) {
+      bullet.speedCurve = emitter.speedCurve;
+      bullet.speed = bullet.baseSpeed * sampleSpeedCurve(emitter.speedCurve, 0);
+    }
+  };
+
+  switch (emitter.shape) {
+    case 'ring':
+      for (let i = 0; i < emitter.count; i++) {
+        emit(centerX, centerY, turn + (i / emitter.count) * Math.PI * 2);
+      }
+      break;
+    case 'fan': {
+      const player = world.player;
+      const aim = emitter.aimed
+        ? Math.atan2(player.x + player.width / 2 - centerX, player.y + player.height / 2 - centerY)
+        : 0;
+      for (let i = 0; i < emitter.count; i++) {
+        emit(centerX, centerY, aim + turn + (i - (emitter.count - 1) / 2) * emitter.spread);
+      }
+      break;
+    }
+    case 'spiral': {
+      const sweep = (world.time / 1000) * emitter.turnRate;
+      for (let i = 0; i < emitter.arms; i++) {
+        emit(centerX, centerY, sweep + turn + (i / emitter.arms) * Math.PI * 2);
+      }
+      break;
+    }
+    case 'curtain': {
+      const laneWidth = CANVAS_WIDTH / emitter.lanes;
+      const gapStart = emitter.gap > 0 ? randomInt(rng, emitter.lanes - emitter.gap + 1) : -1;
+      for (let i = 0; i < emitter.lanes; i++) {
+        if (i >= gapStart && i < gapStart + emitter.gap) continue;
+        emit(laneWidth * i + laneWidth / 2, source.y + source.height, turn);
+      }
+      break;
+    }
+  }
+};
+
+/**
+ * Starts a boss attack. Volleys due right away are fired now; delayed and
+ * repeated ones go on the game-clock schedule so they pause and save with
+ * the rest of the world.
+ */
+export const launchPattern = (world: WorldState, rng: Rng, boss: Boss, patternId: string) => {
+  getPattern(patternId).forEach((emitter, index) => {
+    for (let volley = 0; volley <= (emitter.repeat ?? 0); volley++) {
+      const delay = (emitter.delay ?? 0) + volley * (emitter.interval ?? 0);
+      if (delay <= 0) {
+        fireVolley(world, rng, boss, emitter, volley);
+      } else {
+        scheduleTask(world, delay, { kind: 'BossVolley', bossId: boss.id, pattern: patternId, emitter: index, volley });
+      }
+    }
+  });
+};
+
+// Fires a volley left on the schedule by launchPattern, unless its boss is already gone
+export const fireScheduledVolley = (world: WorldState, rng: Rng, task: VolleyTask) => {
+  const boss = world.bosses.find(b => b.id === task.bossId && b.health > 0);
+  if (!boss) return;
+  fireVolley(world, rng, boss, getPattern(task.pattern)[task.emitter], task.volley);
+};
@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode, ShipType } from '../types';
+import { STARTING_LIVES } from '../constants';
+import { EMPTY_INPUT, step } from './simulation';
+import { createRng } from './rng';
+import { createUpgradeLevels } from './upgrades';
+import { SCORE_SOURCES } from './scoring';
+import { createPlaytestWorld } from './playtest';
+
+const setup = {
+  mode: GameMode.ENDLESS,
+  difficulty: Difficulty.HARD,
+  assist: false,
+  ship: ShipType.INTERCEPTOR,
+  upgrades: { ...createUpgradeLevels(), HULL: 1 },
+};
+
+describe('playtests', () => {
+  it('start on the chosen ship with a score its breakdown accounts for', () => {
+    const world = createPlaytestWorld({ script: { level: 20, length: 60000, loop: true, waves: [] }, from: 0 }, setup);
+    assert.equal(world.mode, GameMode.CAMPAIGN);
+    assert.equal(world.player.ship, ShipType.INTERCEPTOR);
+    assert.deepEqual(world.upgrades, setup.upgrades);
+    assert.equal(world.score, 38000);
+    assert.equal(SCORE_SOURCES.reduce((sum, source) => sum + world.scoreBreakdown[source], 0), world.score);
+    step(world, EMPTY_INPUT, createRng(1), 1);
+    assert.equal(world.lives, STARTING_LIVES);
+  });
+});
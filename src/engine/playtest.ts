@@ -0,0 +1,30 @@
+import { GameMode, LevelScript, RunSetup, WorldState } from '../types';
+import { EXTRA_LIFE_EVERY } from '../constants';
+import { createWorld } from './simulation';
+import { awardScore } from './scoring';
+
+export interface LevelPlaytest {
+  script: LevelScript;
+  from: number; // ms into the script's timeline
+}
+
+/**
+ * A fresh run, with the player's chosen difficulty, ship and upgrades,
+ * dropped into an unsaved level script partway through its timeline. Waves
+ * before `from` are skipped and the score starts at the level's entry
+ * threshold, so levelling up behaves as in a normal run; spare ships are
+ * earned only from there on.
+ */
+export const createPlaytestWorld = ({ script, from }: LevelPlaytest, setup: RunSetup): WorldState => {
+  const world = createWorld({ ...setup, mode: GameMode.CAMPAIGN });
+  world.level = script.level;
+  world.lastLevelHealed = script.level;
+  awardScore(world, 'headStart', (script.level - 1) * 2000, []);
+  world.nextLifeAt = (Math.floor(world.score / EXTRA_LIFE_EVERY) + 1) * EXTRA_LIFE_EVERY;
+  world.levelOverride = script;
+  world.waveLevel = script.level;
+  world.waveStart = -from;
+  const next = script.waves.findIndex(wave => wave.at >= from);
+  world.nextWave = next === -1 ? script.waves.length : next;
+  return world;
+};
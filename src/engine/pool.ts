@@ -0,0 +1,36 @@
+/**
+ * Free-list object pool. Released objects are handed out again by `acquire`,
+ * so hot paths can spawn short-lived entities without allocating.
+ */
+export interface Pool<T> {
+  acquire(): T;
+  release(item: T): void;
+  readonly available: number;
+}
+
+export const createPool = <T>(create: () => T): Pool<T> => {
+  const free: T[] = [];
+  return {
+    acquire: () => free.pop() ?? create(),
+    release: (item: T) => {
+      free.push(item);
+    },
+    get available() {
+      return free.length;
+    },
+  };
+};
+
+// Removes matching items in place (keeping order), passing each removed item to `onRemove`
+export const removeWhere = <T>(items: T[], shouldRemove: (item: T) => boolean, onRemove?: (item: T) => void) => {
+  let write = 0;
+  for (let read = 0; read < items.length; read++) {
+    const item = items[read];
+    if (shouldRemove(item)) {
+      onRemove?.(item);
+    } else {
+      items[write++] = item;
+    }
+  }
+  items.length = write;
+};
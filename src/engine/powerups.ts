@@ -0,0 +1,147 @@
+import { EffectTimer, Enemy, Player, PowerUp, PowerUpType, ScheduledTask, SimEvent, UpgradeType, WeaponType, WorldState } from '../types';
+import {
+  CANVAS_WIDTH,
+  MAGNET_PULL_RATE,
+  MAGNET_SCORE_MULTIPLIER,
+  POWERUP_CONFIGS,
+  POWERUP_SIZE
+} from '../constants';
+import { Rng, nextRandom } from './rng';
+import { cancelTasks, scheduleTask, timeUntil } from './scheduler';
+import { collectWeapon, randomWeapon } from './weapons';
+import { removeWhere } from './pool';
+import { upgradeBonus } from './upgrades';
+
+const POWER_UP_TYPES = Object.values(PowerUpType);
+const TOTAL_WEIGHT = POWER_UP_TYPES.reduce((sum, type) => sum + POWERUP_CONFIGS[type].weight, 0);
+
+export const effectStacks = (player: Player, type: PowerUpType) =>
+  player.effects.find(effect => effect.type === type)?.stacks ?? 0;
+
+export const scoreMultiplier = (player: Player) => (effectStacks(player, PowerUpType.MAGNET) > 0 ? MAGNET_SCORE_MULTIPLIER : 1);
+
+export const spawnPowerUp = (world: WorldState, type: PowerUpType, weapon: WeaponType | null, x: number, y: number) => {
+  world.powerUps.push({
+    id: `${world.nextId++}`,
+    type,
+    weapon,
+    x: Math.max(0, Math.min(CANVAS_WIDTH - POWERUP_SIZE, x)),
+    y,
+    width: POWERUP_SIZE,
+    height: POWERUP_SIZE,
+    speed: 120,
+  });
+};
+
+// Weighted pick from the catalogue; weapon pickups also roll which weapon they carry
+export const spawnRandomPowerUp = (world: WorldState, rng: Rng, x: number, y: number) => {
+  let roll = nextRandom(rng) * TOTAL_WEIGHT;
+  const type = POWER_UP_TYPES.find(t => (roll -= POWERUP_CONFIGS[t].weight) < 0) ?? PowerUpType.WEAPON;
+  spawnPowerUp(world, type, type === PowerUpType.WEAPON ? randomWeapon(rng) : null, x, y);
+};
+
+const isExpiry = (type: PowerUpType) => (task: ScheduledTask) => task.kind === 'PowerUpExpire' && task.powerUp === type;
+
+// Starts a timed effect, or applies its stacking rule when it is already running. The duration
+// upgrade stretches both the effect and its cap.
+export const startEffect = (world: WorldState, type: PowerUpType) => {
+  const config = POWERUP_CONFIGS[type];
+  const active = world.player.effects.find(effect => effect.type === type);
+  const stretch = 1 + upgradeBonus(world.upgrades, UpgradeType.POWERUP_DURATION);
+  let duration = config.duration * stretch;
+  if (!active) {
+    world.player.effects.push({ type, stacks: 1, duration });
+  } else {
+    if (config.stacking === 'extend') {
+      const left = timeUntil(world, 'PowerUpExpire', isExpiry(type)) ?? 0;
+      duration = Math.min((config.maxDuration ?? Infinity) * stretch, left + config.duration * stretch);
+    } else if (config.stacking === 'stack') {
+      active.stacks = Math.min(config.maxStacks ?? Infinity, active.stacks + 1);
+    }
+    active.duration = duration;
+  }
+  cancelTasks(world, 'PowerUpExpire', isExpiry(type));
+  scheduleTask(world, duration, { kind: 'PowerUpExpire', powerUp: type });
+};
+
+export const expireEffect = (player: Player, type: PowerUpType) => {
+  removeWhere(player.effects, effect => effect.type === type);
+};
+
+// Wipes out every enemy shot and regular enemy on screen; bosses shrug it off
+// Every enemy on screen goes down as if shot, so bomb kills score, chain and level up like any other
+const detonateBomb = (world: WorldState, killEnemy: (enemy: Enemy) => void) => {
+  world.bullets.forEach(b => {
+    if (b.isEnemy) b.spent = true;
+  });
+  world.enemies.forEach(e => {
+    e.health = 0;
+    killEnemy(e);
+  });
+  world.enemies.length = 0;
+};
+
+export const collectPowerUp = (
+  world: WorldState,
+  type: PowerUpType,
+  weapon: WeaponType | null,
+  events: SimEvent[],
+  killEnemy: (enemy: Enemy) => void
+) => {
+  const player = world.player;
+  switch (type) {
+    case PowerUpType.WEAPON:
+      if (weapon) {
+        collectWeapon(player, weapon);
+        events.push({ type: 'WeaponChanged', weapon: player.weapon, tier: player.weaponTier });
+      }
+      break;
+    case PowerUpType.SHIELD:
+      player.shieldCharges = Math.min(POWERUP_CONFIGS.SHIELD.maxStacks ?? 1, player.shieldCharges + 1);
+      break;
+    case PowerUpType.BOMB:
+      detonateBomb(world, killEnemy);
+      break;
+    case PowerUpType.REPAIR:
+      if (player.health < player.maxHealth) {
+        player.health += 1;
+        events.push({ type: 'HealthChanged', health: player.health });
+      }
+      break;
+    default:
+      startEffect(world, type);
+  }
+  events.push({ type: 'PowerUpCollected', powerUp: type });
+};
+
+// Pickups drift down the screen, or ease toward the ship while the magnet runs; the magnet
+// upgrade pulls in those within its range the rest of the time
+export const movePowerUps = (world: WorldState, dt: number) => {
+  const player = world.player;
+  const magnet = effectStacks(player, PowerUpType.MAGNET) > 0;
+  const range = upgradeBonus(world.upgrades, UpgradeType.MAGNET);
+  const pull = 1 - Math.exp(-MAGNET_PULL_RATE * dt);
+  const inRange = (p: PowerUp) =>
+    Math.hypot(player.x + player.width / 2 - (p.x + p.width / 2), player.y + player.height / 2 - (p.y + p.height / 2)) <= range;
+  world.powerUps.forEach(p => {
+    p.y += p.speed * dt;
+    if (magnet || inRange(p)) {
+      p.x += (player.x + player.width / 2 - p.width / 2 - p.x) * pull;
+      p.y += (player.y + player.height / 2 - p.height / 2 - p.y) * pull;
+    }
+  });
+};
+
+// Every running effect with its time left, shield charges included
+export const describeEffects = (world: WorldState): EffectTimer[] => {
+  const timers: EffectTimer[] = world.player.effects.map(effect => ({
+    type: effect.type,
+    stacks: effect.stacks,
+    remaining: timeUntil(world, 'PowerUpExpire', isExpiry(effect.type)) ?? 0,
+    duration: effect.duration,
+  }));
+  if (world.player.shieldCharges > 0) {
+    timers.push({ type: PowerUpType.SHIELD, stacks: world.player.shieldCharges, remaining: 0, duration: 0 });
+  }
+  return timers;
+};
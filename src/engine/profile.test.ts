@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode, ShipType } from '../types';
+import {
+  PROFILE_VERSION,
+  createProfile,
+  loadProfile,
+  parseProfile,
+  recordScore,
+  saveProfile,
+  serializeProfile,
+  unlockAchievement
+} from './profile';
+
+// Just enough of localStorage for the profile to read and write
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  clear() {
+    this.items.clear();
+  }
+  keys() {
+    return [...this.items.keys()];
+  }
+}
+
+const storageWith = (items: Record<string, string>) => {
+  const storage = new MemoryStorage();
+  Object.entries(items).forEach(([key, value]) => storage.setItem(key, value));
+  return storage;
+};
+
+describe('profiles', () => {
+  it('gather the keys older versions saved, then remove them', () => {
+    const storage = storageWith({
+      gherros_best_score: '12345',
+      gherros_best_score_BOSS_RUSH_HARD: '40000',
+      gherros_best_tags_BOSS_RUSH_HARD: '["assist"]',
+      gherros_achievements: '["first_blood","bogus"]',
+      gherros_achievements_HARD: '{corrupt',
+      gherros_mode: 'ENDLESS',
+      gherros_assist: '1',
+      gherros_checkpoint: 'kept',
+    });
+    const profile = loadProfile(storage as unknown as Storage);
+    assert.equal(profile.version, PROFILE_VERSION);
+    assert.deepEqual(profile.settings, {
+      mode: GameMode.ENDLESS,
+      difficulty: Difficulty.NORMAL,
+      assist: true,
+      ship: ShipType.VANGUARD,
+      pure: false,
+    });
+    assert.deepEqual(profile.records.CAMPAIGN.NORMAL, { score: 12345, tags: [] });
+    assert.deepEqual(profile.records.BOSS_RUSH.HARD, { score: 40000, tags: ['assist'] });
+    assert.deepEqual(profile.achievements.NORMAL, ['first_blood']);
+    assert.deepEqual(profile.achievements.HARD, []);
+    assert.deepEqual(profile.history, []);
+    assert.deepEqual(storage.keys().sort(), ['gherros_checkpoint', 'gherros_profile']);
+  });
+
+  it('set aside a saved profile that cannot be read and start afresh', () => {
+    const storage = storageWith({ gherros_profile: '{broken' });
+    const profile = loadProfile(storage as unknown as Storage);
+    assert.equal(profile.records.CAMPAIGN.NORMAL.score, 0);
+    assert.equal(storage.getItem('gherros_profile_corrupt'), '{broken');
+    assert.deepEqual(loadProfile(storage as unknown as Storage).records, profile.records);
+  });
+
+  it('keep what survived of a damaged profile', () => {
+    const profile = parseProfile(
+      JSON.stringify({
+        format: 'lsr-profile',
+        version: 1,
+        settings: { mode: 'NOPE', difficulty: 'HARD', ship: 'PHANTOM' },
+        records: { CAMPAIGN: { EASY: { score: 'x' }, HARD: { score: 77.9, tags: ['continued', 9] } } },
+        achievements: { EASY: ['ace', 'ace', 'bogus'] },
+        lifetime: {
+          runs: 3,
+          totals: { kills: 50, score: -1 },
+          difficulties: { HARD: { peaks: { 'kills/30000': 7, bad: 'x' }, bosses: [10, 'x'] } },
+        },
+      })
+    );
+    assert.equal(profile.settings.mode, GameMode.CAMPAIGN);
+    assert.equal(profile.settings.difficulty, Difficulty.HARD);
+    // Not unlocked yet, so the chosen ship falls back to the starter
+    assert.equal(profile.settings.ship, ShipType.VANGUARD);
+    assert.deepEqual(profile.records.CAMPAIGN.HARD, { score: 77, tags: ['continued'] });
+    assert.deepEqual(profile.records.CAMPAIGN.EASY, { score: 0, tags: [] });
+    assert.deepEqual(profile.achievements.EASY, ['ace']);
+    assert.equal(profile.lifetime.runs, 3);
+    assert.equal(profile.lifetime.totals.kills, 50);
+    assert.equal(profile.lifetime.totals.score, 0);
+    assert.deepEqual(profile.lifetime.difficulties.HARD.peaks, { 'kills/30000': 7 });
+    assert.deepEqual(profile.lifetime.difficulties.HARD.bosses, [10]);
+    assert.deepEqual(profile.lifetime.difficulties.EASY.bosses, []);
+  });
+
+  it('survive saving and loading unchanged', () => {
+    let profile = createProfile();
+    profile = recordScore(profile, GameMode.TIME_ATTACK, Difficulty.EASY, 31000, ['continued']);
+    profile = unlockAchievement(profile, Difficulty.EASY, 'first_blood');
+    const storage = new MemoryStorage();
+    saveProfile(storage as unknown as Storage, profile);
+    const loaded = loadProfile(storage as unknown as Storage);
+    assert.deepEqual({ ...loaded, savedAt: '' }, { ...profile, savedAt: '' });
+  });
+
+  it('keep every tag on a record', () => {
+    const profile = recordScore(createProfile(), GameMode.CAMPAIGN, Difficulty.HARD, 9000, ['upgraded', 'assist', 'continued']);
+    const loaded = parseProfile(serializeProfile(profile));
+    assert.deepEqual(loaded.records.CAMPAIGN.HARD.tags.sort(), ['assist', 'continued', 'upgraded']);
+  });
+
+  it('refuse files that are not profiles', () => {
+    assert.throws(() => parseProfile('xx'), /JSON/);
+    assert.throws(() => parseProfile('[]'), /不是/);
+    assert.throws(() => parseProfile(JSON.stringify({ format: 'lsr-profile', version: PROFILE_VERSION + 1 })), /版本/);
+  });
+});
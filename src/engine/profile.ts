@@ -0,0 +1,374 @@
+import {
+  Difficulty,
+  DifficultyBests,
+  EnemyType,
+  GameMode,
+  HitSource,
+  LifetimeStats,
+  PlayerProfile,
+  ProfileSettings,
+  RECORD_TAGS,
+  RecordTag,
+  RunHistoryEntry,
+  RunOutcome,
+  RunSummary,
+  ScoreRecord,
+  ShipType,
+  UpgradeLevels,
+  UpgradeType
+} from '../types';
+import { ACHIEVEMENTS_LIST, BOSS_CONFIGS, RUN_HISTORY_LENGTH, SALVAGE_PER_ACHIEVEMENT } from '../constants';
+import { createDifficultyBests, createLifetimeStats, mergeRunStats } from './achievements';
+import { isJsonObject } from './schema';
+import { SHIP_TYPES, earnedShips } from './ships';
+import { UPGRADE_TYPES, createUpgradeLevels, maxUpgradeLevel, runSalvage, upgradeCost } from './upgrades';
+
+export const PROFILE_FORMAT = 'lsr-profile';
+export const PROFILE_VERSION = 1;
+
+const PROFILE_KEY = 'gherros_profile';
+// A saved profile that couldn't be read is kept here rather than thrown away
+const CORRUPT_PROFILE_KEY = 'gherros_profile_corrupt';
+
+const MODES = Object.values(GameMode);
+const DIFFICULTIES = Object.values(Difficulty);
+const OUTCOMES: RunOutcome[] = ['destroyed', 'cleared', 'timeUp'];
+const ACHIEVEMENT_IDS = ACHIEVEMENTS_LIST.map(a => a.id);
+
+const byMode = <T>(make: (mode: GameMode) => T) =>
+  Object.fromEntries(MODES.map(mode => [mode, make(mode)])) as Record<GameMode, T>;
+
+const byDifficulty = <T>(make: (difficulty: Difficulty) => T) =>
+  Object.fromEntries(DIFFICULTIES.map(difficulty => [difficulty, make(difficulty)])) as Record<Difficulty, T>;
+
+export const createProfile = (): PlayerProfile => ({
+  format: PROFILE_FORMAT,
+  version: PROFILE_VERSION,
+  savedAt: new Date().toISOString(),
+  settings: { mode: GameMode.CAMPAIGN, difficulty: Difficulty.NORMAL, assist: false, ship: ShipType.VANGUARD, pure: false },
+  records: byMode(() => byDifficulty(() => ({ score: 0, tags: [] }))),
+  achievements: byDifficulty(() => []),
+  ships: earnedShips([], 0),
+  lifetime: createLifetimeStats(),
+  history: [],
+  salvage: 0,
+  upgrades: createUpgradeLevels(),
+});
+
+// Ships unlocked so far, topped up with any the profile's achievements and records have earned
+const withEarnedShips = (profile: PlayerProfile): PlayerProfile => {
+  const achievements = DIFFICULTIES.flatMap(d => profile.achievements[d]);
+  const bestScore = Math.max(...MODES.flatMap(m => DIFFICULTIES.map(d => profile.records[m][d].score)));
+  const earned = earnedShips(achievements, bestScore);
+  const ships = SHIP_TYPES.filter(ship => profile.ships.includes(ship) || earned.includes(ship));
+  return ships.length === profile.ships.length ? profile : { ...profile, ships };
+};
+
+// Legacy keys, before profiles, that held progress or menu choices; records had a difficulty and mode suffix
+const LEGACY_KEY = /^gherros_(best_score|best_tags|achievements|mode|difficulty|assist|ship|ships|lifetime)(_|$)/;
+
+// Version 0 is the loose localStorage keys older versions saved, gathered as they were
+const readLegacyKeys = (storage: Storage): Record<string, string> => {
+  const keys: Record<string, string> = {};
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key && LEGACY_KEY.test(key)) keys[key] = storage.getItem(key) ?? '';
+  }
+  return keys;
+};
+
+// A parsed JSON value's fields; anything but an object reads as having none
+type Fields = Record<string, unknown>;
+
+const fieldsOf = (value: unknown): Fields => (isJsonObject(value) ? value : {});
+
+/**
+ * Steps from each version to the next; MIGRATIONS[n] takes a version n
+ * document to n + 1. A step only needs to move data into the new shape:
+ * anything it gets wrong or leaves out is repaired by normalizeProfile.
+ */
+const MIGRATIONS: Record<number, (data: Fields) => Fields> = {
+  0: data => {
+    const keys = fieldsOf(data.keys);
+    const text = (key: string) => {
+      const value = keys[key];
+      return typeof value === 'string' ? value : undefined;
+    };
+    const json = (saved: string | undefined): unknown => {
+      try {
+        return saved === undefined ? undefined : JSON.parse(saved);
+      } catch {
+        return undefined;
+      }
+    };
+    // Campaign keys carried no mode, and a Normal campaign used the keys from before difficulties
+    const legacy = (key: string, difficulty: Difficulty, mode: GameMode) =>
+      text(mode === GameMode.CAMPAIGN ? `${key}_${difficulty}` : `${key}_${mode}_${difficulty}`) ??
+      (mode === GameMode.CAMPAIGN && difficulty === Difficulty.NORMAL ? text(key) : undefined);
+    return {
+      format: PROFILE_FORMAT,
+      version: 1,
+      settings: {
+        mode: text('gherros_mode'),
+        difficulty: text('gherros_difficulty'),
+        assist: text('gherros_assist') === '1',
+        ship: text('gherros_ship'),
+      },
+      records: byMode(mode => byDifficulty(difficulty => ({
+        score: parseInt(legacy('gherros_best_score', difficulty, mode) ?? '0'),
+        tags: json(legacy('gherros_best_tags', difficulty, mode)),
+      }))),
+      achievements: byDifficulty(difficulty => json(legacy('gherros_achievements', difficulty, GameMode.CAMPAIGN))),
+      ships: json(text('gherros_ships')),
+      lifetime: json(text('gherros_lifetime')),
+    };
+  },
+};
+
+const migrateProfile = (data: Fields, version: number) => {
+  let migrated = data;
+  for (let from = version; from < PROFILE_VERSION; from++) {
+    migrated = MIGRATIONS[from](migrated);
+  }
+  return migrated;
+};
+
+const isCount = (n: unknown): n is number => Number.isFinite(n) && (n as number) >= 0;
+
+const isOneOf = <T>(options: readonly T[], value: unknown): value is T => options.some(o => o === value);
+
+const oneOf = <T>(options: readonly T[], value: unknown, fallback: T): T => (isOneOf(options, value) ? value : fallback);
+
+const listOf = <T>(options: readonly T[], value: unknown): T[] =>
+  Array.isArray(value) ? options.filter(o => value.includes(o)) : [];
+
+const readCounts = <K extends string>(fresh: Record<K, number>, value: unknown): Record<K, number> => {
+  const saved = fieldsOf(value);
+  const counts = { ...fresh };
+  (Object.keys(fresh) as K[]).forEach(key => {
+    const count = saved[key];
+    if (isCount(count)) counts[key] = count;
+  });
+  return counts;
+};
+
+const readDifficultyBests = (value: unknown): DifficultyBests => {
+  const saved = fieldsOf(value);
+  const peaks = Object.entries(fieldsOf(saved.peaks)).filter((entry): entry is [string, number] => isCount(entry[1]));
+  const bosses = (list: unknown) => (Array.isArray(list) ? list.filter(isCount) : []);
+  return {
+    bests: readCounts(createDifficultyBests().bests, saved.bests),
+    peaks: Object.fromEntries(peaks),
+    bosses: bosses(saved.bosses),
+    flawlessBosses: bosses(saved.flawlessBosses),
+  };
+};
+
+const readLifetime = (value: unknown): LifetimeStats => {
+  const saved = fieldsOf(value);
+  const fresh = createLifetimeStats();
+  const bossRecords = Object.entries(fieldsOf(saved.bossRecords))
+    .filter(([boss]) => BOSS_CONFIGS[Number(boss)])
+    .map(([boss, record]) => [boss, readCounts({ kills: 0, deaths: 0 }, record)]);
+  return {
+    runs: isCount(saved.runs) ? saved.runs : 0,
+    totals: readCounts(fresh.totals, saved.totals),
+    bests: readCounts(fresh.bests, saved.bests),
+    difficulties: byDifficulty(difficulty => readDifficultyBests(fieldsOf(saved.difficulties)[difficulty])),
+    enemyKills: readCounts<EnemyType>(fresh.enemyKills, saved.enemyKills),
+    bossRecords: Object.fromEntries(bossRecords),
+    damage: readCounts<HitSource>(fresh.damage, saved.damage),
+  };
+};
+
+// A history entry missing anything it needs is dropped rather than guessed at
+const readHistoryEntry = (value: unknown): RunHistoryEntry | null => {
+  const { endedAt, mode, difficulty, ship, outcome, score, level, duration, kills, continues } = fieldsOf(value);
+  if (
+    typeof endedAt !== 'string' ||
+    !isOneOf(MODES, mode) ||
+    !isOneOf(DIFFICULTIES, difficulty) ||
+    !isOneOf(SHIP_TYPES, ship) ||
+    !isOneOf(OUTCOMES, outcome) ||
+    !isCount(score) ||
+    !isCount(level) ||
+    !isCount(duration) ||
+    !isCount(kills) ||
+    !isCount(continues)
+  ) {
+    return null;
+  }
+  return { endedAt, mode, difficulty, ship, outcome, score, level, duration, kills, continues };
+};
+
+// Levels past what the shop sells are cut back to the top level
+const readUpgrades = (value: unknown): UpgradeLevels => {
+  const levels = readCounts<UpgradeType>(createUpgradeLevels(), value);
+  UPGRADE_TYPES.forEach(type => {
+    levels[type] = Math.min(maxUpgradeLevel(type), Math.floor(levels[type]));
+  });
+  return levels;
+};
+
+const readHistory = (value: unknown): RunHistoryEntry[] =>
+  Array.isArray(value)
+    ? value
+        .map(readHistoryEntry)
+        .filter((entry): entry is RunHistoryEntry => entry !== null)
+        .slice(-RUN_HISTORY_LENGTH)
+    : [];
+
+/**
+ * Rebuilds a profile from whatever part of it survived. Anything missing or
+ * malformed falls back to a fresh profile's value, so one bad field costs only
+ * that field.
+ */
+const normalizeProfile = (data: Fields): PlayerProfile => {
+  const fresh = createProfile();
+  const settings = fieldsOf(data.settings);
+  const readRecord = (value: unknown): ScoreRecord => {
+    const { score, tags } = fieldsOf(value);
+    return { score: isCount(score) ? Math.floor(score) : 0, tags: listOf(RECORD_TAGS, tags) };
+  };
+  const profile = withEarnedShips({
+    format: PROFILE_FORMAT,
+    version: PROFILE_VERSION,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : fresh.savedAt,
+    settings: {
+      mode: oneOf(MODES, settings.mode, fresh.settings.mode),
+      difficulty: oneOf(DIFFICULTIES, settings.difficulty, fresh.settings.difficulty),
+      assist: settings.assist === true,
+      ship: oneOf(SHIP_TYPES, settings.ship, fresh.settings.ship),
+      pure: settings.pure === true,
+    },
+    records: byMode(mode => byDifficulty(difficulty => readRecord(fieldsOf(fieldsOf(data.records)[mode])[difficulty]))),
+    achievements: byDifficulty(difficulty => listOf(ACHIEVEMENT_IDS, fieldsOf(data.achievements)[difficulty])),
+    ships: listOf(SHIP_TYPES, data.ships),
+    lifetime: readLifetime(data.lifetime),
+    history: readHistory(data.history),
+    salvage: isCount(data.salvage) ? Math.floor(data.salvage) : 0,
+    upgrades: readUpgrades(data.upgrades),
+  });
+  // The chosen ship has to be one that's still unlocked
+  if (!profile.ships.includes(profile.settings.ship)) profile.settings.ship = fresh.settings.ship;
+  return profile;
+};
+
+export const serializeProfile = (profile: PlayerProfile): string => JSON.stringify(profile);
+
+// Reads a profile document from any supported version, repairing what it can
+export const parseProfile = (text: string): PlayerProfile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('档案不是有效的 JSON');
+  }
+  const data = fieldsOf(parsed);
+  if (data.format !== PROFILE_FORMAT) {
+    throw new Error('不是 LSR 玩家档案');
+  }
+  const { version } = data;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > PROFILE_VERSION) {
+    throw new Error(`不支持的档案版本: ${version}`);
+  }
+  return normalizeProfile(migrateProfile(data, version));
+};
+
+export const saveProfile = (storage: Storage, profile: PlayerProfile) => {
+  storage.setItem(PROFILE_KEY, serializeProfile({ ...profile, savedAt: new Date().toISOString() }));
+};
+
+/**
+ * Reads the saved profile. The first load after updating gathers the keys
+ * older versions saved into a profile and removes them. A profile that can't
+ * be read at all is set aside and replaced with a fresh one, rather than
+ * breaking startup.
+ */
+export const loadProfile = (storage: Storage): PlayerProfile => {
+  const saved = storage.getItem(PROFILE_KEY);
+  if (saved === null) {
+    const keys = readLegacyKeys(storage);
+    const profile = normalizeProfile(migrateProfile({ version: 0, keys }, 0));
+    saveProfile(storage, profile);
+    Object.keys(keys).forEach(key => storage.removeItem(key));
+    return profile;
+  }
+  try {
+    return parseProfile(saved);
+  } catch {
+    storage.setItem(CORRUPT_PROFILE_KEY, saved);
+    const profile = createProfile();
+    saveProfile(storage, profile);
+    return profile;
+  }
+};
+
+export const changeSettings = (profile: PlayerProfile, settings: Partial<ProfileSettings>): PlayerProfile => ({
+  ...profile,
+  settings: { ...profile.settings, ...settings },
+});
+
+// Keeps the score if it beats the record for its mode and difficulty; the same profile otherwise
+export const recordScore = (
+  profile: PlayerProfile,
+  mode: GameMode,
+  difficulty: Difficulty,
+  score: number,
+  tags: RecordTag[]
+): PlayerProfile => {
+  if (score <= profile.records[mode][difficulty].score) return profile;
+  return withEarnedShips({
+    ...profile,
+    records: {
+      ...profile.records,
+      [mode]: { ...profile.records[mode], [difficulty]: { score, tags: [...tags] } },
+    },
+  });
+};
+
+// The same profile if the achievement was already unlocked on this difficulty. Salvage is paid
+// only the first time it's unlocked on any.
+export const unlockAchievement = (profile: PlayerProfile, difficulty: Difficulty, id: string): PlayerProfile => {
+  if (profile.achievements[difficulty].includes(id)) return profile;
+  const first = !DIFFICULTIES.some(d => profile.achievements[d].includes(id));
+  return withEarnedShips({
+    ...profile,
+    salvage: profile.salvage + (first ? SALVAGE_PER_ACHIEVEMENT : 0),
+    achievements: { ...profile.achievements, [difficulty]: [...profile.achievements[difficulty], id] },
+  });
+};
+
+// Folds a finished run into the lifetime stats and adds it to the history, dropping the oldest past
+// the limit. The run's salvage is paid whether or not it was pure.
+export const addRun = (profile: PlayerProfile, summary: RunSummary): PlayerProfile => {
+  const entry: RunHistoryEntry = {
+    endedAt: new Date().toISOString(),
+    mode: summary.mode,
+    difficulty: summary.difficulty,
+    ship: summary.ship,
+    outcome: summary.outcome,
+    score: summary.score,
+    level: summary.level,
+    duration: summary.stats.values.survived,
+    kills: summary.stats.values.kills,
+    continues: summary.continues,
+  };
+  return {
+    ...profile,
+    lifetime: mergeRunStats(profile.lifetime, summary.stats, summary.difficulty),
+    history: [...profile.history, entry].slice(-RUN_HISTORY_LENGTH),
+    salvage: profile.salvage + runSalvage(summary),
+  };
+};
+
+// Buys the next level of an upgrade; the same profile if it's maxed out or unaffordable
+export const buyUpgrade = (profile: PlayerProfile, type: UpgradeType): PlayerProfile => {
+  const cost = upgradeCost(profile.upgrades, type);
+  if (cost === null || cost > profile.salvage) return profile;
+  return {
+    ...profile,
+    salvage: profile.salvage - cost,
+    upgrades: { ...profile.upgrades, [type]: profile.upgrades[type] + 1 },
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode, ShipType } from '../types';
+import { createWorld, step } from './simulation';
+import { createRng } from './rng';
+import { canContinue, continueRun } from './lives';
+import { createPlayback, createRecorder, parseReplay, quantizeInput, serializeReplay } from './replay';
+import { createUpgradeLevels } from './upgrades';
+import { scriptedInput } from './testing';
+
+// Plays a run the way the canvas does, continuing whenever a credit is left
+const recordRun = (ticks: number) => {
+  const seed = 1234;
+  const world = createWorld({
+    mode: GameMode.CAMPAIGN,
+    difficulty: Difficulty.HARD,
+    assist: true,
+    ship: ShipType.INTERCEPTOR,
+    upgrades: { ...createUpgradeLevels(), FIRE_RATE: 2, MAGNET: 1 },
+  });
+  const rng = createRng(seed);
+  const recorder = createRecorder(seed);
+  for (let tick = 1; tick <= ticks; tick++) {
+    if (canContinue(world)) {
+      continueRun(world);
+      recorder.recordContinue();
+    } else if (world.outcome) {
+      break;
+    }
+    const input = quantizeInput(scriptedInput(tick));
+    recorder.record(input);
+    step(world, input, rng, tick);
+  }
+  return { world, replay: recorder.finish(world) };
+};
+
+describe('replays', () => {
+  it('play back to the same world they recorded', () => {
+    const { world, replay } = recordRun(60 * 90);
+    const playback = createPlayback(parseReplay(serializeReplay(replay)));
+    while (!playback.finished) playback.advance();
+    assert.deepEqual(playback.world, world);
+    assert.equal(replay.finalScore, world.score);
+  });
+
+  it('reach the same world seeking backward as playing forward', () => {
+    const { replay } = recordRun(60 * 30);
+    const forward = createPlayback(replay);
+    forward.seek(1000);
+    const scrubbed = createPlayback(replay);
+    scrubbed.seek(1500);
+    scrubbed.seek(1000);
+    assert.equal(scrubbed.tick, 1000);
+    assert.deepEqual(scrubbed.world, forward.world);
+  });
+
+  it('reject files from another version or with damaged input', () => {
+    const { replay } = recordRun(120);
+    assert.throws(() => parseReplay('{'), /JSON/);
+    assert.throws(() => parseReplay(JSON.stringify({ ...replay, version: 1 })), /版本/);
+    assert.throws(() => parseReplay(JSON.stringify({ ...replay, ticks: replay.ticks + 1 })), /损坏/);
+    assert.throws(() => parseReplay(JSON.stringify({ ...replay, upgrades: { ...replay.upgrades, HULL: 99 } })), /损坏/);
+  });
+});
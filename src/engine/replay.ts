@@ -0,0 +1,224 @@
+import { Checkpoint, Difficulty, GameMode, InputFrame, Replay, ShipType, WorldState } from '../types';
+import { Rng, createRng } from './rng';
+import { StepResult, createWorld, step } from './simulation';
+import { continueRun } from './lives';
+import { isJsonObject } from './schema';
+import { UPGRADE_TYPES, maxUpgradeLevel } from './upgrades';
+
+export const REPLAY_FORMAT = 'lsr-replay';
+export const REPLAY_VERSION = 7;
+
+// Playback keeps a snapshot every few seconds so scrubbing never re-simulates the whole run
+const KEYFRAME_INTERVAL = 300;
+
+const INPUT_BITS = {
+  left: 1,
+  right: 2,
+  up: 4,
+  down: 8,
+  fire: 16,
+  pointer: 32,
+  special: 64,
+};
+
+/**
+ * Rounds the pointer to whole pixels. Live input goes through this before it
+ * reaches the simulation, so the recorded frame is exactly what was simulated.
+ */
+export const quantizeInput = (input: InputFrame): InputFrame => ({
+  ...input,
+  pointer: input.pointer ? { x: Math.round(input.pointer.x), y: Math.round(input.pointer.y) } : null,
+});
+
+const encodeFrame = (input: InputFrame): number[] => {
+  let mask = 0;
+  if (input.left) mask |= INPUT_BITS.left;
+  if (input.right) mask |= INPUT_BITS.right;
+  if (input.up) mask |= INPUT_BITS.up;
+  if (input.down) mask |= INPUT_BITS.down;
+  if (input.fire) mask |= INPUT_BITS.fire;
+  if (input.special) mask |= INPUT_BITS.special;
+  if (!input.pointer) return [mask];
+  return [mask | INPUT_BITS.pointer, input.pointer.x, input.pointer.y];
+};
+
+const decodeFrame = (encoded: number[]): InputFrame => {
+  const [mask, x, y] = encoded;
+  return {
+    left: (mask & INPUT_BITS.left) !== 0,
+    right: (mask & INPUT_BITS.right) !== 0,
+    up: (mask & INPUT_BITS.up) !== 0,
+    down: (mask & INPUT_BITS.down) !== 0,
+    fire: (mask & INPUT_BITS.fire) !== 0,
+    special: (mask & INPUT_BITS.special) !== 0,
+    pointer: (mask & INPUT_BITS.pointer) !== 0 ? { x, y } : null,
+  };
+};
+
+const sameFrame = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((value, i) => value === b[i]);
+
+// Pass an earlier recording to keep appending to it, e.g. when a saved run is continued
+export const createRecorder = (seed: number, resumeFrom?: Checkpoint['recording']) => {
+  const input: number[][] = resumeFrom ? resumeFrom.input.map(run => [...run]) : [];
+  const continues = resumeFrom ? [...resumeFrom.continues] : [];
+  let ticks = resumeFrom ? resumeFrom.ticks : 0;
+
+  return {
+    record(frame: InputFrame) {
+      const encoded = encodeFrame(frame);
+      const last = input[input.length - 1];
+      if (last && sameFrame(last.slice(1), encoded)) {
+        last[0] += 1;
+      } else {
+        input.push([1, ...encoded]);
+      }
+      ticks += 1;
+    },
+    // The run was continued before the next tick
+    recordContinue() {
+      continues.push(ticks);
+    },
+    snapshot() {
+      return { ticks, input: input.map(run => [...run]), continues: [...continues] };
+    },
+    finish(world: WorldState): Replay {
+      return {
+        format: REPLAY_FORMAT,
+        version: REPLAY_VERSION,
+        seed,
+        mode: world.mode,
+        difficulty: world.difficulty,
+        assist: world.director !== null,
+        ship: world.player.ship,
+        upgrades: { ...world.upgrades },
+        ticks,
+        recordedAt: new Date().toISOString(),
+        finalScore: world.score,
+        finalLevel: world.level,
+        input: input.map(run => [...run]),
+        continues: [...continues],
+      };
+    },
+  };
+};
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('回放文件不是有效的 JSON');
+  }
+  if (!isJsonObject(data) || data.format !== REPLAY_FORMAT) {
+    throw new Error('不是 LSR 回放文件');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`不支持的回放版本: ${data.version}`);
+  }
+  const { upgrades, ticks, input, continues } = data;
+  const isCount = (n: unknown): n is number => Number.isInteger(n) && (n as number) >= 0;
+  if (
+    !isCount(data.seed) ||
+    !Object.values<unknown>(GameMode).includes(data.mode) ||
+    !Object.values<unknown>(Difficulty).includes(data.difficulty) ||
+    typeof data.assist !== 'boolean' ||
+    !Object.values<unknown>(ShipType).includes(data.ship) ||
+    !isJsonObject(upgrades) ||
+    !UPGRADE_TYPES.every(type => {
+      const level = upgrades[type];
+      return isCount(level) && level <= maxUpgradeLevel(type);
+    }) ||
+    !isCount(ticks) ||
+    !Array.isArray(input) ||
+    !input.every((run: unknown) =>
+      Array.isArray(run) && (run.length === 2 || run.length === 4) && run.every(n => typeof n === 'number')) ||
+    !Array.isArray(continues) ||
+    !continues.every((tick: unknown) => isCount(tick) && tick <= ticks)
+  ) {
+    throw new Error('回放文件已损坏');
+  }
+  const recordedTicks = input.reduce((sum: number, run: number[]) => sum + run[0], 0);
+  if (recordedTicks !== ticks) {
+    throw new Error('回放文件已损坏');
+  }
+  return data as unknown as Replay;
+};
+
+/**
+ * Re-simulates a replay tick by tick. Seeking jumps to the closest earlier
+ * keyframe and steps forward from there.
+ */
+export const createPlayback = (replay: Replay) => {
+  // Expand the run-length input so any tick can be looked up directly
+  const frames: InputFrame[] = [];
+  replay.input.forEach(([repeat, ...encoded]) => {
+    const frame = decodeFrame(encoded);
+    for (let i = 0; i < repeat; i++) frames.push(frame);
+  });
+  const keyframes = new Map<number, { world: WorldState; rng: Rng }>();
+  const continues = new Set(replay.continues);
+
+  const state = {
+    tick: 0,
+    world: createWorld({
+      mode: replay.mode,
+      difficulty: replay.difficulty,
+      assist: replay.assist,
+      ship: replay.ship,
+      upgrades: replay.upgrades,
+    }),
+    rng: createRng(replay.seed),
+  };
+
+  const snapshot = () => {
+    if (state.tick % KEYFRAME_INTERVAL === 0 && !keyframes.has(state.tick)) {
+      keyframes.set(state.tick, { world: structuredClone(state.world), rng: { ...state.rng } });
+    }
+  };
+  snapshot();
+
+  const advance = (): StepResult | null => {
+    if (state.tick >= replay.ticks) return null;
+    if (continues.has(state.tick)) continueRun(state.world);
+    state.tick += 1;
+    const result = step(state.world, frames[state.tick - 1], state.rng, state.tick);
+    snapshot();
+    return result;
+  };
+
+  const seek = (target: number) => {
+    const clamped = Math.max(0, Math.min(replay.ticks, Math.floor(target)));
+    let base = clamped - (clamped % KEYFRAME_INTERVAL);
+    while (!keyframes.has(base)) base -= KEYFRAME_INTERVAL;
+    if (base < state.tick && state.tick <= clamped) base = state.tick;
+
+    if (base !== state.tick) {
+      const keyframe = keyframes.get(base)!;
+      state.tick = base;
+      state.world = structuredClone(keyframe.world);
+      state.rng = { ...keyframe.rng };
+    }
+    while (state.tick < clamped) advance();
+  };
+
+  return {
+    get tick() {
+      return state.tick;
+    },
+    get world() {
+      return state.world;
+    },
+    get finished() {
+      return state.tick >= replay.ticks;
+    },
+    totalTicks: replay.ticks,
+    advance,
+    seek,
+  };
+};
+
+export type Recorder = ReturnType<typeof createRecorder>;
+export type Playback = ReturnType<typeof createPlayback>;
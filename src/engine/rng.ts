@@ -0,0 +1,29 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32).
+ *
+ * The generator state is a single 32-bit integer stored on a plain object, so
+ * it can be serialized alongside the world and resumed at exactly the same
+ * point in the sequence.
+ */
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// Returns a float in [0, 1), like Math.random().
+export const nextRandom = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomRange = (rng: Rng, min: number, max: number): number =>
+  min + nextRandom(rng) * (max - min);
+
+export const randomInt = (rng: Rng, maxExclusive: number): number =>
+  Math.floor(nextRandom(rng) * maxExclusive);
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff);
@@ -0,0 +1,43 @@
+import { ScheduledTask, WorldState } from '../types';
+
+/**
+ * Game-clock scheduler. Tasks are kept on the world and only come due as the
+ * simulation advances, so pausing the game pauses every pending action too.
+ */
+export const scheduleTask = (world: WorldState, delayMs: number, task: ScheduledTask) => {
+  world.schedule.push({ at: world.time + delayMs, task });
+};
+
+// Pass `matches` to cancel only some tasks of the kind, e.g. one boss's volleys
+export const cancelTasks = (
+  world: WorldState,
+  kind: ScheduledTask['kind'],
+  matches: (task: ScheduledTask) => boolean = () => true
+) => {
+  world.schedule = world.schedule.filter(entry => entry.task.kind !== kind || !matches(entry.task));
+};
+
+// Replaces any pending task of the same kind, e.g. when a power-up is picked up again
+export const rescheduleTask = (world: WorldState, delayMs: number, task: ScheduledTask) => {
+  cancelTasks(world, task.kind);
+  scheduleTask(world, delayMs, task);
+};
+
+// Game time left before the next task of this kind runs, or null if none is pending
+export const timeUntil = (
+  world: WorldState,
+  kind: ScheduledTask['kind'],
+  matches: (task: ScheduledTask) => boolean = () => true
+): number | null => {
+  const pending = world.schedule.filter(entry => entry.task.kind === kind && matches(entry.task));
+  if (pending.length === 0) return null;
+  return Math.max(0, Math.min(...pending.map(entry => entry.at)) - world.time);
+};
+
+// Removes and returns every task that is due, in the order they were due
+export const takeDueTasks = (world: WorldState): ScheduledTask[] => {
+  const due = world.schedule.filter(entry => entry.at <= world.time);
+  if (due.length === 0) return [];
+  world.schedule = world.schedule.filter(entry => entry.at > world.time);
+  return due.sort((a, b) => a.at - b.at).map(entry => entry.task);
+};
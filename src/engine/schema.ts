@@ -0,0 +1,69 @@
+/**
+ * Minimal JSON Schema checker covering the keywords our data files use:
+ * type, enum, required, properties, additionalProperties, items, minimum
+ * and maximum. Returns one message per problem, empty when the value fits.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  [keyword: string]: unknown;
+}
+
+// A parsed JSON value whose fields can be read, as opposed to an array, null or a primitive
+export const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeMatches = (type: JsonSchema['type'], value: unknown) => {
+  switch (type) {
+    case 'object':
+      return isJsonObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+export const validateSchema = (schema: JsonSchema, value: unknown, path = '$'): string[] => {
+  if (schema.type && !typeMatches(schema.type, value)) {
+    return [`${path}: 应为 ${schema.type}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: 应为 ${schema.enum.join(' / ')} 之一`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: 不能小于 ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: 不能大于 ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, `${path}[${i}]`)));
+  } else if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    schema.required?.forEach(key => {
+      if (record[key] === undefined) errors.push(`${path}.${key}: 缺少必填字段`);
+    });
+    Object.entries(record).forEach(([key, child]) => {
+      if (child === undefined) return; // same as absent, as it would be once serialized
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateSchema(childSchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: 未知字段`);
+      }
+    });
+  }
+  return errors;
+};
@@ -0,0 +1,67 @@
+import { ComboStatus, ScoreBreakdown, ScoreSource, SimEvent, WorldState } from '../types';
+import { COMBO_MAX_MULTIPLIER, COMBO_STEP, COMBO_STEP_BONUS, COMBO_TIMEOUT } from '../constants';
+import { cancelTasks, rescheduleTask, timeUntil } from './scheduler';
+
+export const SCORE_SOURCES: ScoreSource[] = [
+  'kills',
+  'combo',
+  'bosses',
+  'formations',
+  'graze',
+  'noMiss',
+  'escapes',
+  'headStart',
+];
+
+export const createScoreBreakdown = (): ScoreBreakdown => ({
+  kills: 0,
+  combo: 0,
+  bosses: 0,
+  formations: 0,
+  graze: 0,
+  noMiss: 0,
+  escapes: 0,
+  headStart: 0,
+});
+
+/**
+ * Adds points to the score and to their source in the breakdown. Penalties
+ * are negative and never take the score below zero; only what was actually
+ * taken off is booked, so the breakdown always sums to the score.
+ */
+export const awardScore = (world: WorldState, source: ScoreSource, points: number, events: SimEvent[]) => {
+  const applied = Math.max(-world.score, Math.round(points));
+  if (applied === 0) return;
+  world.score += applied;
+  world.scoreBreakdown[source] += applied;
+  events.push({ type: 'ScoreChanged', score: world.score });
+};
+
+export const comboMultiplier = (combo: number) =>
+  Math.min(COMBO_MAX_MULTIPLIER, 1 + Math.floor(combo / COMBO_STEP) * COMBO_STEP_BONUS);
+
+/**
+ * Scores a kill at the combo's multiplier: the base points go to `source`
+ * and whatever the multiplier added on top goes to the combo. The kill then
+ * joins the chain and restarts its timer.
+ */
+export const scoreKill = (world: WorldState, source: ScoreSource, points: number, events: SimEvent[]) => {
+  const multiplier = comboMultiplier(world.combo);
+  awardScore(world, source, points, events);
+  awardScore(world, 'combo', points * (multiplier - 1), events);
+  world.combo += 1;
+  world.bestCombo = Math.max(world.bestCombo, world.combo);
+  rescheduleTask(world, COMBO_TIMEOUT, { kind: 'ComboExpire' });
+};
+
+export const breakCombo = (world: WorldState) => {
+  world.combo = 0;
+  cancelTasks(world, 'ComboExpire');
+};
+
+export const describeCombo = (world: WorldState): ComboStatus => ({
+  count: world.combo,
+  multiplier: comboMultiplier(world.combo),
+  remaining: timeUntil(world, 'ComboExpire') ?? 0,
+  duration: COMBO_TIMEOUT,
+});
@@ -0,0 +1,69 @@
+import {
+  Difficulty,
+  PowerUpType,
+  ShipSpecial,
+  ShipType,
+  SimEvent,
+  SpecialStatus,
+  UpgradeLevels,
+  UpgradeType,
+  WorldState
+} from '../types';
+import { DASH_DURATION, DIFFICULTY_PROFILES, POWERUP_CONFIGS, SHIP_CONFIGS } from '../constants';
+import { rescheduleTask, timeUntil } from './scheduler';
+import { startEffect } from './powerups';
+import { createUpgradeLevels, upgradeBonus } from './upgrades';
+
+export const SHIP_TYPES = Object.values(ShipType);
+
+// Hull points a ship starts with on a difficulty, the hull upgrade included; never below one
+export const shipMaxHealth = (ship: ShipType, difficulty: Difficulty, upgrades: UpgradeLevels = createUpgradeLevels()) =>
+  Math.max(
+    1,
+    DIFFICULTY_PROFILES[difficulty].playerHealth + SHIP_CONFIGS[ship].healthBonus + upgradeBonus(upgrades, UpgradeType.HULL)
+  );
+
+const SPECIALS: Record<ShipSpecial, (world: WorldState) => void> = {
+  purge: world => {
+    world.bullets.forEach(b => {
+      if (b.isEnemy) b.spent = true;
+    });
+  },
+  // Never cuts short invincibility the ship already has
+  dash: world => {
+    const left = world.player.invincible ? timeUntil(world, 'InvincibilityEnd') ?? 0 : 0;
+    world.player.invincible = true;
+    rescheduleTask(world, Math.max(left, DASH_DURATION), { kind: 'InvincibilityEnd' });
+  },
+  barrier: world => {
+    world.player.shieldCharges = Math.min(POWERUP_CONFIGS.SHIELD.maxStacks ?? 1, world.player.shieldCharges + 1);
+  },
+  stasis: world => startEffect(world, PowerUpType.TIME_SLOW),
+};
+
+// Fires the ship's special once it has recharged
+export const fireSpecial = (world: WorldState, events: SimEvent[]) => {
+  const { player } = world;
+  if (world.time < player.specialReadyAt) return;
+  const config = SHIP_CONFIGS[player.ship];
+  SPECIALS[config.special](world);
+  player.specialReadyAt = world.time + config.cooldown;
+  events.push({ type: 'SpecialUsed', ship: player.ship });
+};
+
+export const describeSpecial = (world: WorldState): SpecialStatus => {
+  const config = SHIP_CONFIGS[world.player.ship];
+  return {
+    name: config.specialName,
+    remaining: Math.max(0, world.player.specialReadyAt - world.time),
+    cooldown: config.cooldown,
+  };
+};
+
+// Ships the given achievements and best score have earned, including those available from the start
+export const earnedShips = (achievements: string[], bestScore: number): ShipType[] =>
+  SHIP_TYPES.filter(ship => {
+    const unlock = SHIP_CONFIGS[ship].unlock;
+    if (!unlock) return true;
+    return 'achievement' in unlock ? achievements.includes(unlock.achievement) : bestScore >= unlock.score;
+  });
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, EnemyType, GameMode, PowerUpType, ShipType } from '../types';
+import { BOSS_CONFIGS, BULLET_SPECS, ENEMY_CONFIGS, ENTRY_LEAD } from '../constants';
+import { EMPTY_INPUT, createBoss, createWorld, step } from './simulation';
+import { fireBullet } from './bullets';
+import { createRng } from './rng';
+import { scheduleTask } from './scheduler';
+import { spawnPowerUp } from './powerups';
+import { createPlaytestWorld } from './playtest';
+import { createUpgradeLevels } from './upgrades';
+import { scriptedInput } from './testing';
+
+describe('simulation', () => {
+  it('play the same run the same way from the same seed and input', () => {
+    const first = createWorld();
+    const second = createWorld();
+    const firstRng = createRng(42);
+    const secondRng = createRng(42);
+    for (let tick = 1; tick <= 60 * 60; tick++) {
+      const a = step(first, scriptedInput(tick), firstRng, tick);
+      const b = step(second, scriptedInput(tick), secondRng, tick);
+      assert.deepEqual(a.events, b.events, `tick ${tick}`);
+    }
+    assert.equal(first.score, second.score);
+    assert.deepEqual(first.player, second.player);
+    assert.deepEqual(first.enemies, second.enemies);
+  });
+
+  it('keep the player inside the canvas', () => {
+    const world = createWorld();
+    const rng = createRng(1);
+    for (let tick = 1; tick <= 600; tick++) {
+      step(world, { ...EMPTY_INPUT, left: true, up: true }, rng, tick);
+    }
+    assert.equal(world.player.x, 0);
+    assert.equal(world.player.y, 0);
+  });
+
+  it('remove enemies that cross the screen without ever fitting on it', () => {
+    const world = createWorld();
+    const rng = createRng(5);
+    const { width } = ENEMY_CONFIGS[EnemyType.BASIC];
+    // Far enough above the screen that it never drifts into view on the way across
+    scheduleTask(world, 0, {
+      kind: 'EnemySpawn',
+      enemy: EnemyType.BASIC,
+      entry: 'left',
+      x: -width - ENTRY_LEAD,
+      y: -300,
+      healthScale: 1000,
+      behaviour: 'strafe',
+    });
+    step(world, EMPTY_INPUT, rng, 1);
+    const crossing = world.enemies.find(e => e.entry === 'left');
+    assert.ok(crossing);
+    for (let tick = 2; tick <= 60 * 15 && world.enemies.includes(crossing); tick++) {
+      step(world, EMPTY_INPUT, rng, tick);
+    }
+    assert.ok(!crossing.entered);
+    assert.ok(!world.enemies.includes(crossing));
+  });
+
+  it('count bomb kills like any other, formation bonus included', () => {
+    const world = createPlaytestWorld(
+      {
+        script: { level: 1, length: 60000, loop: false, waves: [{ at: 0, enemy: EnemyType.BASIC, count: 6, x: 400, formation: 'line' }] },
+        from: 0,
+      },
+      { mode: GameMode.CAMPAIGN, difficulty: Difficulty.NORMAL, assist: false, ship: ShipType.VANGUARD, upgrades: createUpgradeLevels() }
+    );
+    const rng = createRng(3);
+    step(world, EMPTY_INPUT, rng, 1);
+    assert.equal(world.enemies.length, 6);
+    spawnPowerUp(world, PowerUpType.BOMB, null, world.player.x, world.player.y);
+    const { events } = step(world, EMPTY_INPUT, rng, 2);
+    assert.equal(world.enemies.length, 0);
+    assert.equal(events.filter(e => e.type === 'EnemyKilled').length, 6);
+    assert.ok(events.some(e => e.type === 'FormationWiped'));
+    assert.equal(world.combo, 6);
+    assert.ok(world.scoreBreakdown.combo > 0 && world.scoreBreakdown.formations > 0);
+  });
+
+  it('deflect shots off boss parts while the boss changes phase', () => {
+    const world = createWorld();
+    const rng = createRng(8);
+    const boss = createBoss(BOSS_CONFIGS[5], 0, 1, 100, Infinity);
+    boss.invulnerableUntil = Infinity;
+    world.bosses.push(boss);
+    const [part] = boss.parts;
+    // Fired from inside the part's lower half so it's still overlapping after a tick of flight
+    const shoot = (tick: number) => {
+      fireBullet(world, BULLET_SPECS.PLAYER, part.x + part.width / 2, part.y + part.height - 10, 0, false);
+      step(world, EMPTY_INPUT, rng, tick);
+    };
+    shoot(1);
+    assert.equal(part.health, part.maxHealth);
+    boss.invulnerableUntil = 0;
+    shoot(2);
+    assert.ok(part.health < part.maxHealth);
+  });
+});
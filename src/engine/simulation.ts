@@ -0,0 +1,913 @@
+import {
+  WorldState,
+  InputFrame,
+  SimEvent,
+  Player,
+  Enemy,
+  Boss,
+  BossConfig,
+  Difficulty,
+  BossPart,
+  Bullet,
+  Entity,
+  EnemyType,
+  EntryEdge,
+  FormationShape,
+  GameMode,
+  HitSource,
+  PowerUpType,
+  RunSetup,
+  ShipType,
+  UpgradeType,
+  WaveSpawn
+} from '../types';
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  PLAYER_MAX_HEALTH,
+  SHIP_CONFIGS,
+  DIFFICULTY_PROFILES,
+  BULLET_SPECS,
+  CONTINUE_CREDITS,
+  EXTRA_LIFE_EVERY,
+  STARTING_LIVES,
+  ENEMY_CONFIGS,
+  POWERUP_CONFIGS,
+  POWERUP_SIZE,
+  POWERUP_SPAWN_INTERVAL,
+  ENTRY_DIRECTIONS,
+  FORMATION_BONUS,
+  FORMATION_CHANCE,
+  FORMATION_DROP_CHANCE,
+  FORMATION_SIZES,
+  GRAZE_RADIUS,
+  GRAZE_SCORE,
+  NO_MISS_BOSS_BONUS,
+  SPEED_BOOST,
+  TIME_SLOW_FACTOR,
+  TICK_MS
+} from '../constants';
+import { Rng, nextRandom, randomInt } from './rng';
+import { cancelTasks, rescheduleTask, scheduleTask, takeDueTasks } from './scheduler';
+import { fireScheduledVolley, launchPattern, sampleSpeedCurve } from './patterns';
+import { getActiveScript } from './levels';
+import { fireBullet, releaseAllBullets, sweepBullets } from './bullets';
+import { fireInterval, fireWeapon, randomWeapon, steerBullet } from './weapons';
+import {
+  collectPowerUp,
+  effectStacks,
+  expireEffect,
+  movePowerUps,
+  scoreMultiplier,
+  spawnPowerUp,
+  spawnRandomPowerUp
+} from './powerups';
+import { getBehaviour, initialBehaviourState } from './behaviours';
+import {
+  ENTRY_EDGES,
+  FORMATION_SHAPES,
+  createFormation,
+  entryPoint,
+  formationSlots,
+  pruneFormations,
+  recordFormationKill
+} from './formations';
+import { awardScore, breakCombo, createScoreBreakdown, scoreKill } from './scoring';
+import { createDirector, directorScale, noteHit, noteKill, noteSpawn, reviewDirector } from './director';
+import {
+  BOSS_LEVELS,
+  FINAL_BOSS,
+  bossHealthScale,
+  endRun,
+  getBossConfig,
+  hasRegularEnemies,
+  isVictory,
+  scheduledBoss,
+  timeLeft
+} from './modes';
+import { awardExtraLives, loseShip } from './lives';
+import { fireSpecial, shipMaxHealth } from './ships';
+import { createRunStats, recordStats } from './achievements';
+import { createUpgradeLevels, upgradeBonus } from './upgrades';
+import { removeWhere } from './pool';
+import { createSpatialHash } from './spatialHash';
+
+// Broad-phase grid cell size; about the size of the larger enemies
+const COLLISION_CELL_SIZE = 80;
+
+// Smoothing rates (per second) for eased movement
+const POINTER_FOLLOW_RATE = 13.4;
+const BOSS_ENTRANCE_RATE = 3.1;
+const BOSS_WEAVE_RATE = 2.5;
+
+// Moves `current` toward `target` by the same fraction per second regardless of step size
+const approach = (current: number, target: number, rate: number, dt: number) =>
+  current + (target - current) * (1 - Math.exp(-rate * dt));
+
+export interface StepResult {
+  world: WorldState;
+  events: SimEvent[];
+}
+
+export const EMPTY_INPUT: InputFrame = {
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+  fire: false,
+  special: false,
+  pointer: null,
+};
+
+export const createPlayer = (ship = ShipType.VANGUARD, maxHealth = PLAYER_MAX_HEALTH, shieldCharges = 0): Player => {
+  const config = SHIP_CONFIGS[ship];
+  return {
+    id: 'player',
+    x: CANVAS_WIDTH / 2 - config.size / 2,
+    y: CANVAS_HEIGHT - 100,
+    width: config.size,
+    height: config.size,
+    speed: config.speed,
+    health: maxHealth,
+    maxHealth,
+    shieldCharges,
+    invincible: false,
+    effects: [],
+    weapon: config.weapon,
+    weaponTier: 0,
+    ship,
+    specialReadyAt: 0,
+  };
+};
+
+export const createWorld = ({
+  mode = GameMode.CAMPAIGN,
+  difficulty = Difficulty.NORMAL,
+  assist = false,
+  ship = ShipType.VANGUARD,
+  upgrades = createUpgradeLevels(),
+}: Partial<RunSetup> = {}): WorldState => ({
+  mode,
+  outcome: null,
+  difficulty,
+  director: assist ? createDirector() : null,
+  time: 0,
+  nextId: 0,
+  score: 0,
+  scoreBreakdown: createScoreBreakdown(),
+  forfeitedScore: 0,
+  lives: STARTING_LIVES,
+  nextLifeAt: EXTRA_LIFE_EVERY,
+  credits: CONTINUE_CREDITS,
+  continues: 0,
+  combo: 0,
+  bestCombo: 0,
+  bossHitTaken: false,
+  level: 1,
+  player: createPlayer(
+    ship,
+    shipMaxHealth(ship, difficulty, upgrades),
+    Math.min(POWERUP_CONFIGS.SHIELD.maxStacks ?? 1, upgradeBonus(upgrades, UpgradeType.SHIELD))
+  ),
+  enemies: [],
+  formations: [],
+  bosses: [],
+  bullets: [],
+  powerUps: [],
+  lastEnemySpawn: 0,
+  lastPowerUpSpawn: 0,
+  stats: createRunStats(),
+  lastShot: 0,
+  lastLevelHealed: 1,
+  bossWarningActive: false,
+  bossEntranceTime: 0,
+  schedule: [],
+  waveLevel: 0,
+  waveStart: 0,
+  nextWave: 0,
+  bossKey: BOSS_LEVELS[0],
+  upgrades: { ...upgrades },
+  levelOverride: null,
+});
+
+// Removes every hostile and projectile, as pausing the game does
+export const clearBattlefield = (world: WorldState) => {
+  world.enemies = [];
+  world.formations = [];
+  releaseAllBullets(world);
+  world.powerUps = [];
+  world.bosses = [];
+};
+
+// Remember where everything was so the renderer can interpolate between ticks
+const rememberPositions = (world: WorldState) => {
+  const remember = (e: Entity) => {
+    e.prevX = e.x;
+    e.prevY = e.y;
+  };
+  remember(world.player);
+  world.enemies.forEach(remember);
+  world.bosses.forEach(remember);
+  world.bullets.forEach(remember);
+  world.powerUps.forEach(remember);
+};
+
+type Target = Enemy | BossPart;
+
+// Reused every tick so collision checks don't allocate
+const targetGrid = createSpatialHash<Target>(COLLISION_CELL_SIZE);
+const nearbyTargets: Target[] = [];
+const isDestroyed = (e: { health: number }) => e.health <= 0;
+const isBossPart = (t: Target): t is BossPart => 'partId' in t;
+// Enemies from below are already past the player, so only the others can escape
+const hasEscaped = (e: Enemy) => e.entry !== 'bottom' && e.y > CANVAS_HEIGHT;
+const isOnScreen = (e: Enemy) =>
+  e.x >= 0 && e.y >= 0 && e.x + e.width <= CANVAS_WIDTH && e.y + e.height <= CANVAS_HEIGHT;
+// Past the edge opposite the one it came in by
+const isPastExit = (e: Enemy) => {
+  switch (e.entry) {
+    case 'top':
+      return e.y > CANVAS_HEIGHT + 20;
+    case 'bottom':
+      return e.y + e.height < -20;
+    case 'left':
+      return e.x > CANVAS_WIDTH + 20;
+    case 'right':
+      return e.x + e.width < -20;
+  }
+};
+// Flew back off any edge after coming into view, or straight across without ever fitting on screen;
+// unlike escaping past the player this costs nothing
+const hasLeft = (e: Enemy) =>
+  e.entered
+    ? e.y + e.height < -20 || e.y > CANVAS_HEIGHT + 20 || e.x + e.width < -20 || e.x > CANVAS_WIDTH + 20
+    : isPastExit(e);
+const isOffBottom = (e: Entity) => e.y >= CANVAS_HEIGHT;
+
+const overlaps = (a: Entity, b: Entity) =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+// Enemies from the sides and bottom fly straight across unless told otherwise;
+// the usual behaviours all assume a start at the top
+const spawnEnemy = (
+  world: WorldState,
+  rng: Rng,
+  type: EnemyType,
+  entry: EntryEdge,
+  x: number,
+  y: number,
+  healthScale: number,
+  behaviour?: string
+) => {
+  const config = ENEMY_CONFIGS[type];
+  const difficulty = DIFFICULTY_PROFILES[world.difficulty];
+  // Health and speed scale with level, then with difficulty and the director
+  const health = Math.max(
+    1,
+    Math.round(
+      (config.health + Math.floor(world.level / 2)) * healthScale * difficulty.enemyHealth * directorScale(world, 'enemyHealth')
+    )
+  );
+  // Endless keeps the final boss's pace past it; only health goes on growing
+  const speed = (config.speed + (Math.min(world.level, FINAL_BOSS) * 18)) * difficulty.enemySpeed;
+  const enemy: Enemy = {
+    id: `${world.nextId++}`,
+    type,
+    x,
+    y,
+    width: config.width,
+    height: config.height,
+    speed,
+    health,
+    maxHealth: health,
+    scoreValue: config.scoreValue,
+    attackTimer: world.time + nextRandom(rng) * 2000, // Randomize first shot
+    ...initialBehaviourState(behaviour ?? (entry === 'top' ? config.behaviour : 'strafe'), x, y),
+    vx: ENTRY_DIRECTIONS[entry].x * speed,
+    vy: ENTRY_DIRECTIONS[entry].y * speed,
+    entry,
+  };
+  world.enemies.push(enemy);
+  noteSpawn(world);
+  return enemy;
+};
+
+const spawnFormation = (
+  world: WorldState,
+  rng: Rng,
+  type: EnemyType,
+  shape: FormationShape,
+  entry: EntryEdge,
+  along: number,
+  count: number,
+  healthScale: number
+) => {
+  const config = ENEMY_CONFIGS[type];
+  const formation = createFormation(world, shape, count);
+  formationSlots(shape, count, entry, along, config.width, config.height).forEach(slot => {
+    const enemy = spawnEnemy(world, rng, type, entry, slot.x, slot.y, healthScale, slot.behaviour);
+    enemy.slot = slot.slot;
+    enemy.formationId = formation.id;
+  });
+};
+
+// Squadrons come from the top at first; the sides open up at level 6 and the bottom at level 8
+const spawnRandomFormation = (world: WorldState, rng: Rng) => {
+  const shape = FORMATION_SHAPES[randomInt(rng, FORMATION_SHAPES.length)];
+  const edges = world.level >= 8 ? ENTRY_EDGES : world.level >= 6 ? ENTRY_EDGES.slice(0, 3) : ENTRY_EDGES.slice(0, 1);
+  const entry = edges[randomInt(rng, edges.length)];
+  const type = world.level >= 4 && nextRandom(rng) < 0.4 ? EnemyType.FAST : EnemyType.BASIC;
+  const vertical = entry === 'top' || entry === 'bottom';
+  const along = vertical ? 200 + nextRandom(rng) * (CANVAS_WIDTH - 400) : 80 + nextRandom(rng) * CANVAS_HEIGHT * 0.3;
+  spawnFormation(world, rng, type, shape, entry, along, FORMATION_SIZES[shape], 1);
+};
+
+// Group members after the first are staggered through the scheduler
+const spawnWave = (world: WorldState, rng: Rng, wave: WaveSpawn) => {
+  const healthScale = wave.healthScale ?? 1;
+  const entry = wave.entry ?? 'top';
+  const vertical = entry === 'top' || entry === 'bottom';
+  const start = vertical ? wave.x : wave.y ?? 0;
+  const config = ENEMY_CONFIGS[wave.enemy];
+  // Kept within the screen's width or height, whichever edge they cross
+  const size = vertical ? config.width : config.height;
+  const limit = (vertical ? CANVAS_WIDTH : CANVAS_HEIGHT) - size;
+  const clamp = (along: number) => Math.max(0, Math.min(limit, along));
+  if (wave.formation) {
+    // `along` is the formation's centre, so it's the lead's edge that has to fit
+    const centre = clamp(start - size / 2) + size / 2;
+    spawnFormation(world, rng, wave.enemy, wave.formation, entry, centre, wave.count, healthScale);
+    return;
+  }
+  for (let i = 0; i < wave.count; i++) {
+    const along = start + i * (wave.spacing ?? 0);
+    const { x, y } = entryPoint(entry, clamp(along), config.width, config.height);
+    const delay = i * (wave.interval ?? 0);
+    if (delay <= 0) {
+      spawnEnemy(world, rng, wave.enemy, entry, x, y, healthScale, wave.behaviour);
+    } else {
+      scheduleTask(world, delay, {
+        kind: 'EnemySpawn',
+        enemy: wave.enemy,
+        entry,
+        x,
+        y,
+        healthScale,
+        behaviour: wave.behaviour,
+      });
+    }
+  }
+};
+
+// Spawns whatever the level's script has due; false means the level has no script left to run
+const runWaveScript = (world: WorldState, rng: Rng) => {
+  const script = getActiveScript(world);
+  if (!script) return false;
+
+  if (world.waveLevel !== world.level) {
+    world.waveLevel = world.level;
+    world.waveStart = world.time;
+    world.nextWave = 0;
+  }
+  while (world.time - world.waveStart >= script.length) {
+    if (script.boss) return true; // the boss fight takes over from here
+    if (!script.loop) return false;
+    world.waveStart += script.length;
+    world.nextWave = 0;
+  }
+
+  const elapsed = world.time - world.waveStart;
+  while (world.nextWave < script.waves.length && script.waves[world.nextWave].at <= elapsed) {
+    spawnWave(world, rng, script.waves[world.nextWave]);
+    world.nextWave += 1;
+  }
+  return true;
+};
+
+export const createBoss = (
+  config: BossConfig,
+  index: number,
+  count: number,
+  y: number,
+  attackTimer: number,
+  healthScale = 1
+): Boss => {
+  const id = `boss_${index}`;
+  const x = (CANVAS_WIDTH / (count + 1)) * (index + 1) - config.width / 2;
+  const health = Math.round(config.health * healthScale);
+  return {
+    id,
+    type: EnemyType.BASIC,
+    x,
+    y,
+    width: config.width,
+    height: config.height,
+    speed: config.speed * (index % 2 === 0 ? 1 : -1),
+    health,
+    maxHealth: health,
+    scoreValue: config.scoreValue,
+    isBoss: true,
+    attackTimer,
+    ...initialBehaviourState('descend', x, y), // unused: bosses move in step 4 by their phase
+    phase: 0,
+    invulnerableUntil: 0,
+    parts: config.parts.map(part => ({
+      id: `${id}_${part.id}`,
+      partId: part.id,
+      bossId: id,
+      offsetX: part.x,
+      offsetY: part.y,
+      x: x + part.x,
+      y: y + part.y,
+      width: part.width,
+      height: part.height,
+      speed: 0,
+      health: Math.round(part.health * healthScale),
+      maxHealth: Math.round(part.health * healthScale),
+      scoreValue: part.scoreValue,
+      shieldsBody: !!part.shieldsBody,
+    })),
+  };
+};
+
+// Parts ride along with their boss
+const placeParts = (boss: Boss) => {
+  for (const part of boss.parts) {
+    part.x = boss.x + part.offsetX;
+    part.y = boss.y + part.offsetY;
+  }
+};
+
+// The boss hull shrugs off hits while it changes phase or a shielding part still stands
+const isShielded = (boss: Boss, now: number) =>
+  boss.invulnerableUntil > now || boss.parts.some(part => part.shieldsBody && part.health > 0);
+
+// Parts share their boss's phase-change invulnerability
+const isPartShielded = (world: WorldState, part: BossPart, now: number) =>
+  world.bosses.some(boss => boss.id === part.bossId && boss.invulnerableUntil > now);
+
+// Parts sit on top of their boss's hull, so they take the hit when both overlap
+const pickTarget = (b: Bullet): Target | null => {
+  let hit: Target | null = null;
+  for (const target of targetGrid.query(b, nearbyTargets)) {
+    if (target.health <= 0 || !overlaps(b, target) || b.hitIds.includes(target.id)) continue;
+    if (isBossPart(target)) return target;
+    hit ??= target;
+  }
+  return hit;
+};
+
+// BOSS_CONFIGS key of the boss the current level ends with, once that fight is due
+const dueBoss = (world: WorldState): number | null => {
+  const script = hasRegularEnemies(world) ? getActiveScript(world) : undefined;
+  if (!script) return scheduledBoss(world);
+  if (!script.boss || world.waveLevel !== world.level || world.time - world.waveStart < script.length) return null;
+  return script.boss;
+};
+
+// Bosses and their escorts arrive once the warning has played out
+const spawnBossWave = (world: WorldState, events: SimEvent[]) => {
+  const config = getBossConfig(world.bossKey);
+  const difficulty = DIFFICULTY_PROFILES[world.difficulty];
+  const healthScale = bossHealthScale(world.bossKey);
+  const now = world.time;
+  events.push({ type: 'BossWarning', bossName: null });
+  world.bossHitTaken = false;
+
+  for (let i = 0; i < config.count; i++) {
+    world.bosses.push(createBoss(config, i, config.count, -config.height, now, difficulty.bossHealth * healthScale));
+  }
+
+  // Add Escorts
+  const escortCount = config.escorts;
+  for (let i = 0; i < escortCount; i++) {
+    const eType = EnemyType.HEAVY;
+    const eConfig = ENEMY_CONFIGS[eType];
+    const x = (CANVAS_WIDTH / (escortCount + 1)) * (i + 1) - eConfig.width / 2;
+    const y = -eConfig.height - 100;
+    const escortHealth = Math.round(eConfig.health * 2 * difficulty.enemyHealth * healthScale); // Stronger escorts
+    world.enemies.push({
+      id: `escort_${i}`,
+      type: eType,
+      x,
+      y,
+      width: eConfig.width,
+      height: eConfig.height,
+      speed: eConfig.speed * difficulty.enemySpeed,
+      health: escortHealth,
+      maxHealth: escortHealth,
+      scoreValue: eConfig.scoreValue,
+      attackTimer: now + 1000,
+      ...initialBehaviourState(eConfig.behaviour, x, y),
+    });
+  }
+
+  world.bossEntranceTime = now;
+  world.bossWarningActive = false;
+  events.push({ type: 'BossSpawned', boss: world.bossKey });
+};
+
+/**
+ * Advances the world by one fixed tick. The world is updated in place and
+ * returned together with the events raised during the tick; all randomness
+ * comes from `rng` and all timing from `tick`, so the same inputs always
+ * produce the same run.
+ */
+export const step = (world: WorldState, input: InputFrame, rng: Rng, tick: number): StepResult => {
+  const events: SimEvent[] = [];
+  const player = world.player;
+  const difficulty = DIFFICULTY_PROFILES[world.difficulty];
+  const now = tick * TICK_MS;
+  const dt = TICK_MS / 1000;
+  world.time = now;
+  rememberPositions(world);
+  if (timeLeft(world) === 0) endRun(world, 'timeUp', events);
+
+  const explode = (x: number, y: number, color: string, count = 15) => {
+    events.push({ type: 'Explosion', x, y, color, count });
+  };
+  // Any hit, even one a shield soaks up, ends the combo and spoils a no-miss boss fight
+  const damagePlayer = (source: HitSource) => {
+    breakCombo(world);
+    noteHit(world);
+    world.bossHitTaken = true;
+    if (player.shieldCharges > 0) {
+      player.shieldCharges -= 1;
+      events.push({ type: 'ShieldAbsorbed', source });
+    } else {
+      player.health -= 1;
+      events.push({ type: 'PlayerHit', source });
+      events.push({ type: 'HealthChanged', health: player.health });
+    }
+    player.invincible = true;
+    rescheduleTask(world, difficulty.invincibility, { kind: 'InvincibilityEnd' });
+    explode(player.x + player.width / 2, player.y + player.height / 2, '#ff0000', 20);
+    if (player.health <= 0) loseShip(world, events);
+  };
+
+  // 0. Run Scheduled Tasks
+  takeDueTasks(world).forEach(task => {
+    switch (task.kind) {
+      case 'BossArrival':
+        spawnBossWave(world, events);
+        break;
+      case 'InvincibilityEnd':
+        player.invincible = false;
+        break;
+      case 'ComboExpire':
+        breakCombo(world);
+        break;
+      case 'PowerUpExpire':
+        expireEffect(player, task.powerUp);
+        break;
+      case 'BossVolley':
+        fireScheduledVolley(world, rng, task);
+        break;
+      case 'EnemySpawn':
+        spawnEnemy(world, rng, task.enemy, task.entry, task.x, task.y, task.healthScale, task.behaviour);
+        break;
+    }
+  });
+
+  // Time-slow holds back everything hostile; the player and their shots keep full speed
+  const hostileDt = effectStacks(player, PowerUpType.TIME_SLOW) > 0 ? dt * TIME_SLOW_FACTOR : dt;
+
+  // 1. Handle Player Movement
+  const boost = effectStacks(player, PowerUpType.SPEED) > 0 ? SPEED_BOOST : 1;
+  if (input.pointer) {
+    const targetX = input.pointer.x - player.width / 2;
+    const targetY = input.pointer.y - player.height / 2;
+    player.x = approach(player.x, targetX, POINTER_FOLLOW_RATE * boost, dt);
+    player.y = approach(player.y, targetY, POINTER_FOLLOW_RATE * boost, dt);
+  } else {
+    const move = player.speed * boost * dt;
+    if (input.left) player.x -= move;
+    if (input.right) player.x += move;
+    if (input.up) player.y -= move;
+    if (input.down) player.y += move;
+  }
+
+  // Boundary checks
+  player.x = Math.max(0, Math.min(CANVAS_WIDTH - player.width, player.x));
+  player.y = Math.max(0, Math.min(CANVAS_HEIGHT - player.height, player.y));
+
+  // 2. Handle Shooting
+  if (input.special) fireSpecial(world, events);
+  if ((input.fire || input.pointer) && now - world.lastShot > fireInterval(world)) {
+    events.push({ type: 'ShotsFired', count: fireWeapon(world) });
+    world.lastShot = now;
+  }
+
+  // 3. Update Bullets
+  for (const b of world.bullets) {
+    if (!b.isEnemy) steerBullet(world, b, dt);
+    if (b.speedCurve) b.speed = b.baseSpeed * sampleSpeedCurve(b.speedCurve, now - b.firedAt);
+    const dir = b.isEnemy ? -1 : 1;
+    const bulletDt = b.isEnemy ? hostileDt : dt;
+    b.x += Math.sin(b.angle) * b.speed * bulletDt;
+    b.y -= Math.cos(b.angle) * b.speed * dir * bulletDt;
+  }
+  sweepBullets(world);
+
+  // 4. Update Bosses
+  const bossConfig = getBossConfig(world.bossKey);
+  world.bosses.forEach(boss => {
+    // Health thresholds move the fight into its next phase
+    const nextPhase = bossConfig.phases[boss.phase + 1];
+    if (nextPhase && boss.health > 0 && boss.health <= boss.maxHealth * nextPhase.at) {
+      boss.phase += 1;
+      const transition = nextPhase.transition ?? 0;
+      boss.invulnerableUntil = now + transition;
+      boss.attackTimer = now + transition;
+      cancelTasks(world, 'BossVolley', task => task.kind === 'BossVolley' && task.bossId === boss.id);
+      explode(boss.x + boss.width / 2, boss.y + boss.height / 2, '#fff', 40);
+      events.push({ type: 'BossPhaseChanged', phase: boss.phase });
+    }
+    const phase = bossConfig.phases[boss.phase];
+    const speed = bossConfig.speed * phase.speed;
+
+    // Boss movement
+    if (phase.movement === 'track') {
+      const offset = player.x + player.width / 2 - (boss.x + boss.width / 2);
+      boss.x += Math.sign(offset) * Math.min(Math.abs(offset), speed * hostileDt);
+    } else {
+      // boss.speed only carries the sweep direction here
+      boss.x += Math.sign(boss.speed) * speed * hostileDt;
+      if (boss.x <= 0) boss.speed = Math.abs(boss.speed);
+      if (boss.x + boss.width >= CANVAS_WIDTH) boss.speed = -Math.abs(boss.speed);
+    }
+    boss.x = Math.max(0, Math.min(CANVAS_WIDTH - boss.width, boss.x));
+
+    if (phase.movement === 'weave' && now - world.bossEntranceTime >= 2000) {
+      boss.y = approach(boss.y, 50 + 60 * (0.5 - 0.5 * Math.cos(now / 700)), BOSS_WEAVE_RATE, hostileDt);
+    } else if (boss.y < 50) {
+      // Keep boss on screen
+      boss.y += 60 * dt;
+    }
+
+    // Boss shooting patterns
+    if (!boss.attackTimer) boss.attackTimer = 0;
+
+    if (now - boss.attackTimer > phase.attackInterval * difficulty.bossAttackInterval) {
+      launchPattern(world, rng, boss, phase.attacks[randomInt(rng, phase.attacks.length)]);
+
+      // Ultimate move, rolled on top of the regular attack
+      if (phase.ultimate && nextRandom(rng) < phase.ultimate.chance) {
+        launchPattern(world, rng, boss, phase.ultimate.pattern);
+      }
+
+      boss.attackTimer = now;
+    }
+  });
+
+  // 5. Update Boss Spawning with Warning
+  const bossKey = dueBoss(world);
+  if (bossKey !== null && world.bosses.length === 0 && !world.bossWarningActive) {
+    world.bossKey = bossKey;
+    const config = getBossConfig(bossKey);
+    world.bossWarningActive = true;
+    scheduleTask(world, 3000, { kind: 'BossArrival' });
+    events.push({ type: 'BossWarning', bossName: config.name });
+
+    // Clear screen for boss
+    world.enemies = [];
+    world.formations = [];
+    cancelTasks(world, 'EnemySpawn');
+  }
+
+  // Boss Entrance Animation
+  let isEntering = false;
+  if (world.bosses.length > 0 && now - world.bossEntranceTime < 2000) {
+    world.bosses.forEach(boss => {
+      boss.y = approach(boss.y, 50, BOSS_ENTRANCE_RATE, dt);
+    });
+    isEntering = true;
+  }
+  world.bosses.forEach(placeParts);
+
+  // Only spawn regular enemies if no boss is present and no warning
+  if (
+    hasRegularEnemies(world) &&
+    world.bosses.length === 0 &&
+    !world.bossWarningActive &&
+    !isEntering &&
+    !runWaveScript(world, rng)
+  ) {
+    const spawnInterval =
+      (Math.max(300, 1500 - world.level * 120) * difficulty.spawnInterval) / directorScale(world, 'spawnRate');
+    if (now - world.lastEnemySpawn > spawnInterval && world.level >= 3 && nextRandom(rng) < FORMATION_CHANCE) {
+      spawnRandomFormation(world, rng);
+      world.lastEnemySpawn = now + spawnInterval; // a squadron counts as two spawns' worth
+    } else if (now - world.lastEnemySpawn > spawnInterval) {
+      const rand = nextRandom(rng);
+      let type = EnemyType.BASIC;
+      if (world.level >= 3 && rand > 0.6) type = EnemyType.FAST;
+      if (world.level >= 5 && rand > 0.75) type = EnemyType.RANGED;
+      if (world.level >= 7 && rand > 0.9) type = EnemyType.HEAVY;
+      if (world.level >= 9 && rand > 0.86 && rand <= 0.9) type = EnemyType.MINELAYER;
+      if (world.level >= 11 && rand > 0.96) type = EnemyType.SHIELDER;
+
+      const config = ENEMY_CONFIGS[type];
+      spawnEnemy(world, rng, type, 'top', nextRandom(rng) * (CANVAS_WIDTH - config.width), -config.height, 1);
+      world.lastEnemySpawn = now;
+    }
+  }
+
+  // Each enemy's behaviour moves it; shielders mark who they cover as they go
+  const behaviourContext = { world, rng, dt: hostileDt };
+  world.enemies.forEach(e => (e.shielded = false));
+  world.enemies.forEach(e => {
+    e.age += hostileDt * 1000;
+    getBehaviour(e.behaviour)(e, behaviourContext);
+    if (!e.entered && isOnScreen(e)) e.entered = true;
+  });
+
+  // Check for escaped enemies
+  let escapedCount = 0;
+  removeWhere(world.enemies, hasEscaped, () => escapedCount++);
+  removeWhere(world.enemies, hasLeft);
+  if (escapedCount > 0) {
+    awardScore(world, 'escapes', -50 * escapedCount, events);
+  }
+
+  reviewDirector(world);
+
+  // 6. Update PowerUps & Spawning
+  const powerUpRate = directorScale(world, 'powerUpRate');
+  if (now - world.lastPowerUpSpawn > POWERUP_SPAWN_INTERVAL / powerUpRate) {
+    spawnRandomPowerUp(world, rng, nextRandom(rng) * (CANVAS_WIDTH - POWERUP_SIZE), -POWERUP_SIZE);
+    world.lastPowerUpSpawn = now;
+  }
+
+  movePowerUps(world, dt);
+  removeWhere(world.powerUps, isOffBottom);
+
+  // Every way of destroying a regular enemy pays out, feeds the combo and can level up alike
+  const killEnemy = (e: Enemy) => {
+    const config = ENEMY_CONFIGS[e.type];
+    explode(e.x + e.width / 2, e.y + e.height / 2, config.color);
+    scoreKill(world, 'kills', e.scoreValue * scoreMultiplier(player), events);
+    noteKill(world);
+    events.push({ type: 'EnemyKilled', enemy: e.type, x: e.x + e.width / 2, y: e.y + e.height / 2 });
+    if (config.dropChance > 0 && nextRandom(rng) < config.dropChance * powerUpRate) {
+      spawnRandomPowerUp(world, rng, e.x + e.width / 2 - POWERUP_SIZE / 2, e.y);
+    }
+    // Destroying a whole formation pays for every member and may leave a power-up
+    const wiped = e.formationId ? recordFormationKill(world, e) : null;
+    if (wiped) {
+      const bonus = FORMATION_BONUS * wiped.size * scoreMultiplier(player);
+      awardScore(world, 'formations', bonus, events);
+      events.push({ type: 'FormationWiped', shape: wiped.shape, bonus, x: e.x + e.width / 2, y: e.y + e.height / 2 });
+      if (nextRandom(rng) < FORMATION_DROP_CHANCE * powerUpRate) {
+        spawnRandomPowerUp(world, rng, e.x + e.width / 2 - POWERUP_SIZE / 2, e.y);
+      }
+    }
+
+    // Level up check (only if no boss is active)
+    if (world.bosses.length === 0 && hasRegularEnemies(world)) {
+      // Only level up by one at a time based on score threshold
+      if (world.score + world.forfeitedScore >= world.level * 2000) {
+        const nextLevel = world.level + 1;
+        // Healing logic: every 2 levels
+        if (nextLevel % 2 === 0 && nextLevel > world.lastLevelHealed) {
+          if (player.health < player.maxHealth) {
+            player.health += 1;
+            events.push({ type: 'HealthChanged', health: player.health });
+          }
+          world.lastLevelHealed = nextLevel;
+        }
+
+        world.level = nextLevel;
+        events.push({ type: 'LevelUp', level: world.level });
+      }
+    }
+  };
+
+  // 7. Collision Detection
+  // Player bullet vs Enemy/Boss, narrowed down by the spatial hash
+  targetGrid.clear();
+  world.bosses.forEach(boss => boss.parts.forEach(targetGrid.insert));
+  world.bosses.forEach(targetGrid.insert);
+  world.enemies.forEach(targetGrid.insert);
+
+  for (const b of world.bullets) {
+    if (b.isEnemy || b.spent) continue;
+
+    const e = pickTarget(b);
+    if (!e) continue;
+    if (b.hitIds.length === 0) events.push({ type: 'ShotHit' });
+    if (b.pierce > 0) {
+      b.pierce -= 1;
+      b.hitIds.push(e.id);
+    } else {
+      b.spent = true;
+    }
+
+    if (isBossPart(e) ? isPartShielded(world, e, now) : e.isBoss ? isShielded(e as Boss, now) : e.shielded) {
+      explode(b.x, b.y, '#67e8f9', 2); // Deflected
+    } else if (isBossPart(e)) {
+      e.health -= b.damage;
+      explode(b.x, b.y, '#fff', 3);
+      if (e.health <= 0) {
+        explode(e.x + e.width / 2, e.y + e.height / 2, '#f97316', 30);
+        scoreKill(world, 'bosses', e.scoreValue, events);
+      }
+    } else {
+      e.health -= b.damage;
+
+      if (e.isBoss) {
+        explode(b.x, b.y, '#fff', 3);
+        if (e.health <= 0) {
+          explode(e.x + e.width / 2, e.y + e.height / 2, getBossConfig(world.bossKey).color, 50);
+          scoreKill(world, 'bosses', e.scoreValue, events);
+        }
+      } else if (e.health <= 0) {
+        killEnemy(e);
+      }
+    }
+  }
+  world.bosses.forEach(boss => removeWhere(boss.parts, isDestroyed));
+  removeWhere(world.enemies, isDestroyed);
+  pruneFormations(world);
+
+  // Cleanup dead bosses
+  if (world.bosses.some(b => b.health <= 0)) {
+    // Every boss leaves a weapon behind
+    removeWhere(world.bosses, isDestroyed, (boss: Boss) => {
+      const x = boss.x + boss.width / 2 - POWERUP_SIZE / 2;
+      spawnPowerUp(world, PowerUpType.WEAPON, randomWeapon(rng), x, boss.y + boss.height / 2);
+    });
+    if (world.bosses.length === 0) {
+      // All bosses defeated
+      cancelTasks(world, 'BossVolley');
+      const flawless = !world.bossHitTaken;
+      if (flawless) {
+        const config = getBossConfig(world.bossKey);
+        const fightScore = (config.scoreValue + config.parts.reduce((sum, part) => sum + part.scoreValue, 0)) * config.count;
+        const bonus = Math.round(fightScore * NO_MISS_BOSS_BONUS);
+        awardScore(world, 'noMiss', bonus, events);
+        events.push({ type: 'NoMissBonus', bonus });
+      }
+      world.level += 1;
+      events.push({ type: 'LevelUp', level: world.level });
+      events.push({ type: 'BossDefeated', boss: world.bossKey, flawless });
+      // Boss Rush patches the ship up fully before the next fight
+      if (world.mode === GameMode.BOSS_RUSH && player.health < player.maxHealth) {
+        player.health = player.maxHealth;
+        events.push({ type: 'HealthChanged', health: player.health });
+      }
+      if (isVictory(world)) endRun(world, 'cleared', events);
+    }
+  }
+
+  // Player vs Enemy/Boss/EnemyBullet
+  if (!player.invincible) {
+    // Check enemy bullets; a near miss pays a graze, once per bullet
+    const playerX = player.x + player.width / 2;
+    const playerY = player.y + player.height / 2;
+    for (const b of world.bullets) {
+      if (!b.isEnemy || b.spent || player.invincible) continue;
+      if (overlaps(player, b)) {
+        damagePlayer('bullet');
+        b.spent = true;
+      } else if (!b.grazed && Math.hypot(b.x + b.width / 2 - playerX, b.y + b.height / 2 - playerY) < GRAZE_RADIUS) {
+        b.grazed = true;
+        awardScore(world, 'graze', GRAZE_SCORE, events);
+        explode(b.x + b.width / 2, b.y + b.height / 2, '#e0f2fe', 3);
+      }
+    }
+
+    // Check Bosses
+    world.bosses.forEach(e => {
+      if (!player.invincible && overlaps(player, e)) {
+        damagePlayer('boss');
+      }
+    });
+
+    world.enemies.forEach(e => {
+      if (!player.invincible && overlaps(player, e)) {
+        damagePlayer('enemy');
+        e.health = 0; // Destroy enemy on impact
+      }
+    });
+    removeWhere(world.enemies, isDestroyed);
+  }
+  sweepBullets(world);
+
+  // Player vs PowerUp
+  world.powerUps.forEach(p => {
+    if (overlaps(player, p)) {
+      collectPowerUp(world, p.type, p.weapon, events, killEnemy);
+      explode(p.x + p.width / 2, p.y + p.height / 2, '#00ff00', 10);
+      p.y = CANVAS_HEIGHT + 100; // Mark for removal
+    }
+  });
+  removeWhere(world.powerUps, isOffBottom);
+  awardExtraLives(world, events);
+  recordStats(world, events);
+
+  return { world, events };
+};
@@ -0,0 +1,74 @@
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Offsets cell coordinates so entities slightly off-screen still get a positive key
+const CELL_OFFSET = 512;
+const CELL_STRIDE = 1024;
+
+/**
+ * Uniform-grid broad phase. Items are bucketed by the cells their bounds
+ * cover; a query returns every item sharing a cell with the given rect, which
+ * the caller then narrows down with an exact overlap test. Buckets and result
+ * arrays are reused between frames.
+ */
+export const createSpatialHash = <T extends Rect>(cellSize: number) => {
+  const cells = new Map<number, T[]>();
+  const usedCells: T[][] = [];
+  const seen = new Set<T>();
+
+  const cellOf = (value: number) => Math.floor(value / cellSize) + CELL_OFFSET;
+
+  const insert = (item: T) => {
+    const minX = cellOf(item.x);
+    const maxX = cellOf(item.x + item.width);
+    const minY = cellOf(item.y);
+    const maxY = cellOf(item.y + item.height);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const key = cx * CELL_STRIDE + cy;
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = [];
+          cells.set(key, cell);
+        }
+        if (cell.length === 0) usedCells.push(cell);
+        cell.push(item);
+      }
+    }
+  };
+
+  // Fills `out` with the candidates near `rect` and returns it
+  const query = (rect: Rect, out: T[]): T[] => {
+    out.length = 0;
+    seen.clear();
+    const minX = cellOf(rect.x);
+    const maxX = cellOf(rect.x + rect.width);
+    const minY = cellOf(rect.y);
+    const maxY = cellOf(rect.y + rect.height);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const cell = cells.get(cx * CELL_STRIDE + cy);
+        if (!cell) continue;
+        for (let i = 0; i < cell.length; i++) {
+          const item = cell[i];
+          if (!seen.has(item)) {
+            seen.add(item);
+            out.push(item);
+          }
+        }
+      }
+    }
+    return out;
+  };
+
+  const clear = () => {
+    for (let i = 0; i < usedCells.length; i++) usedCells[i].length = 0;
+    usedCells.length = 0;
+  };
+
+  return { insert, query, clear };
+};
@@ -0,0 +1,14 @@
+import { InputFrame } from '../types';
+import { EMPTY_INPUT } from './simulation';
+
+// Helpers shared by the engine's tests
+
+// Sweeps side to side firing, with the odd special and a pointer drag off the pixel grid
+export const scriptedInput = (tick: number): InputFrame => ({
+  ...EMPTY_INPUT,
+  fire: true,
+  left: tick % 240 < 120,
+  right: tick % 240 >= 120,
+  special: tick % 600 === 0,
+  pointer: tick % 900 < 60 ? { x: 200.4 + (tick % 60), y: 700.6 } : null,
+});
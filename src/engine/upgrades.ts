@@ -0,0 +1,22 @@
+import { RunSummary, UpgradeLevels, UpgradeType } from '../types';
+import { SALVAGE_PER_BOSS, SALVAGE_SCORE_STEP, UPGRADE_CONFIGS } from '../constants';
+
+export const UPGRADE_TYPES = Object.values(UpgradeType);
+
+export const createUpgradeLevels = (): UpgradeLevels =>
+  Object.fromEntries(UPGRADE_TYPES.map(type => [type, 0])) as UpgradeLevels;
+
+export const maxUpgradeLevel = (type: UpgradeType) => UPGRADE_CONFIGS[type].costs.length;
+
+// Combined effect of every level bought, in the unit of the upgrade's step
+export const upgradeBonus = (upgrades: UpgradeLevels, type: UpgradeType) => upgrades[type] * UPGRADE_CONFIGS[type].step;
+
+// Price of the next level, or null once the upgrade is maxed out
+export const upgradeCost = (upgrades: UpgradeLevels, type: UpgradeType): number | null =>
+  UPGRADE_CONFIGS[type].costs[upgrades[type]] ?? null;
+
+export const hasUpgrades = (upgrades: UpgradeLevels) => UPGRADE_TYPES.some(type => upgrades[type] > 0);
+
+// Salvage a finished run pays out; achievements pay theirs as they're unlocked
+export const runSalvage = (summary: RunSummary) =>
+  Math.floor(summary.score / SALVAGE_SCORE_STEP) + summary.stats.values.bosses * SALVAGE_PER_BOSS;
@@ -0,0 +1,104 @@
+import { Bullet, Entity, Player, PowerUpType, UpgradeType, WeaponType, WorldState } from '../types';
+import { BULLET_SPECS, DAMAGE_BOOST_PER_STACK, WEAPON_CONFIGS } from '../constants';
+import { Rng, randomInt } from './rng';
+import { fireBullet } from './bullets';
+import { upgradeBonus } from './upgrades';
+
+const WEAPON_TYPES = Object.values(WeaponType);
+
+// Side shots the triple-shot power-up adds outside whatever the weapon already fires
+const TRIPLE_SHOT_ANGLE = 0.2;
+
+export const getWeaponTier = (player: Player) => {
+  const tiers = WEAPON_CONFIGS[player.weapon].tiers;
+  return tiers[Math.min(player.weaponTier, tiers.length - 1)];
+};
+
+// Time between shots, shortened by the fire-rate upgrade
+export const fireInterval = (world: WorldState) =>
+  getWeaponTier(world.player).interval * (1 - upgradeBonus(world.upgrades, UpgradeType.FIRE_RATE));
+
+export const randomWeapon = (rng: Rng) => WEAPON_TYPES[randomInt(rng, WEAPON_TYPES.length)];
+
+/**
+ * Equips a picked-up weapon. Every pickup is also an upgrade: the tier goes
+ * up by one whether the weapon is kept or swapped, until the last tier.
+ */
+export const collectWeapon = (player: Player, weapon: WeaponType) => {
+  player.weapon = weapon;
+  player.weaponTier = Math.min(player.weaponTier + 1, WEAPON_CONFIGS[weapon].tiers.length - 1);
+};
+
+// One shot of the equipped weapon: barrels `gap` px apart, each angled `spread` further out.
+// Returns how many bullets it fired.
+export const fireWeapon = (world: WorldState): number => {
+  const player = world.player;
+  const config = WEAPON_CONFIGS[player.weapon];
+  const tier = getWeaponTier(player);
+  const spec = BULLET_SPECS[config.bullet];
+  const amp = player.effects.find(effect => effect.type === PowerUpType.DAMAGE);
+  const damage = tier.damage * (1 + (amp ? amp.stacks * DAMAGE_BOOST_PER_STACK : 0));
+  const centerX = player.x + player.width / 2;
+
+  const emit = (offset: number, angle: number, side: number) => {
+    const bullet = fireBullet(world, spec, centerX + offset - spec.width / 2, player.y, angle, false);
+    bullet.damage = damage;
+    bullet.pierce = tier.pierce ?? 0;
+    bullet.homing = config.homing ?? 0;
+    if (config.sway) {
+      bullet.sway = config.sway.amplitude * side;
+      bullet.swayRate = config.sway.rate;
+    }
+  };
+
+  for (let i = 0; i < tier.count; i++) {
+    const slot = i - (tier.count - 1) / 2;
+    emit(slot * tier.gap, slot * tier.spread, i % 2 === 0 ? 1 : -1);
+  }
+  if (player.effects.some(effect => effect.type === PowerUpType.TRIPLE_SHOT)) {
+    const outer = ((tier.count - 1) / 2) * tier.spread + TRIPLE_SHOT_ANGLE;
+    emit(0, -outer, 1);
+    emit(0, outer, -1);
+    return tier.count + 2;
+  }
+  return tier.count;
+};
+
+// Closest live enemy, boss or boss part above the projectile
+const nearestTarget = (world: WorldState, b: Bullet) => {
+  let nearest: Entity | null = null;
+  let nearestDistance = Infinity;
+  const consider = (target: Entity & { health: number }) => {
+    const dx = target.x + target.width / 2 - b.x;
+    const dy = target.y + target.height / 2 - b.y;
+    if (target.health <= 0 || dy > 0) return;
+    const distance = dx * dx + dy * dy;
+    if (distance < nearestDistance) {
+      nearest = target;
+      nearestDistance = distance;
+    }
+  };
+  world.enemies.forEach(consider);
+  world.bosses.forEach(boss => {
+    consider(boss);
+    boss.parts.forEach(consider);
+  });
+  return nearest as Entity | null;
+};
+
+// Turns homing projectiles and swings wave beams; runs before the bullet moves each tick
+export const steerBullet = (world: WorldState, b: Bullet, dt: number) => {
+  if (b.homing > 0) {
+    const target = nearestTarget(world, b);
+    if (target) {
+      // Player shots travel along (sin, -cos) of their angle
+      const wanted = Math.atan2(target.x + target.width / 2 - b.x, b.y - (target.y + target.height / 2));
+      const turn = Math.atan2(Math.sin(wanted - b.angle), Math.cos(wanted - b.angle));
+      b.angle += Math.sign(turn) * Math.min(Math.abs(turn), b.homing * dt);
+    }
+  }
+  if (b.sway !== 0) {
+    const age = (world.time - b.firedAt) / 1000;
+    b.x += b.sway * b.swayRate * Math.cos(age * b.swayRate) * dt;
+  }
+};
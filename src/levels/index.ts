@@ -0,0 +1,7 @@
+import level01 from './level-01.json';
+import level02 from './level-02.json';
+import level03 from './level-03.json';
+import level04 from './level-04.json';
+
+// Level files shipped with the game; levels without one use random spawning
+export const BUNDLED_LEVELS: unknown[] = [level01, level02, level03, level04];
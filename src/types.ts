@@ -3,6 +3,59 @@ export enum GameState {
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
   GAMEOVER = 'GAMEOVER',
+  CONTINUE = 'CONTINUE', // shot down with credits left, waiting on the player's choice
+  REPLAY = 'REPLAY',
+}
+
+export enum Difficulty {
+  EASY = 'EASY',
+  NORMAL = 'NORMAL',
+  HARD = 'HARD',
+  NIGHTMARE = 'NIGHTMARE',
+}
+
+export enum ShipType {
+  VANGUARD = 'VANGUARD',
+  INTERCEPTOR = 'INTERCEPTOR',
+  FORTRESS = 'FORTRESS',
+  PHANTOM = 'PHANTOM',
+}
+
+// Permanent upgrades bought with salvage between runs
+export enum UpgradeType {
+  HULL = 'HULL',
+  FIRE_RATE = 'FIRE_RATE',
+  POWERUP_DURATION = 'POWERUP_DURATION',
+  SHIELD = 'SHIELD',
+  MAGNET = 'MAGNET',
+}
+
+// Levels bought of each upgrade; all zero for a pure run
+export type UpgradeLevels = Record<UpgradeType, number>;
+
+export enum GameMode {
+  CAMPAIGN = 'CAMPAIGN',
+  BOSS_RUSH = 'BOSS_RUSH',
+  TIME_ATTACK = 'TIME_ATTACK',
+  ENDLESS = 'ENDLESS',
+}
+
+// How a run came to an end: shot down, won outright, or the clock ran out
+export type RunOutcome = 'destroyed' | 'cleared' | 'timeUp';
+
+// Everything chosen on the START screen before a run begins
+export interface RunSetup {
+  mode: GameMode;
+  difficulty: Difficulty;
+  assist: boolean; // adaptive difficulty director on
+  ship: ShipType;
+  upgrades: UpgradeLevels;
+}
+
+export interface GameModeConfig {
+  name: string;
+  description: string;
+  color: string;
 }
 
 export enum EnemyType {
@@ -10,20 +63,140 @@ export enum EnemyType {
   FAST = 'FAST',
   HEAVY = 'HEAVY',
   RANGED = 'RANGED',
+  MINELAYER = 'MINELAYER',
+  SHIELDER = 'SHIELDER',
 }
 
 export enum PowerUpType {
   TRIPLE_SHOT = 'TRIPLE_SHOT',
   SHIELD = 'SHIELD',
+  WEAPON = 'WEAPON',
+  BOMB = 'BOMB',
+  SPEED = 'SPEED',
+  MAGNET = 'MAGNET',
+  REPAIR = 'REPAIR',
+  DAMAGE = 'DAMAGE',
+  TIME_SLOW = 'TIME_SLOW',
+}
+
+export enum WeaponType {
+  VULCAN = 'VULCAN',
+  SPREAD = 'SPREAD',
+  LASER = 'LASER',
+  HOMING = 'HOMING',
+  WAVE = 'WAVE',
 }
 
+// Multipliers a difficulty puts on top of the usual per-level scaling
+export interface DifficultyProfile {
+  name: string;
+  description: string;
+  color: string;
+  spawnInterval: number; // on the time between random spawns
+  enemyHealth: number;
+  enemySpeed: number;
+  enemyBulletSpeed: number;
+  bossHealth: number;
+  bossAttackInterval: number;
+  playerHealth: number; // hit points, not a multiplier
+  invincibility: number; // ms the player can't be hit again after a hit
+}
+
+// What the adaptive difficulty director turns, as multipliers around 1
+export interface DirectorKnobs {
+  spawnRate: number; // on how often random enemies appear
+  enemyHealth: number;
+  powerUpRate: number; // on power-up spawns and drop chances
+}
+
+export type DirectorKnob = keyof DirectorKnobs;
+
+// One review that changed the knobs, kept so assisted runs can be told apart
+export interface DirectorAdjustment extends DirectorKnobs {
+  time: number;
+  level: number;
+  skill: number; // -1 struggling .. 1 cruising, as the review judged it
+}
+
+export interface DirectorState extends DirectorKnobs {
+  spawns: number[]; // game times of recent enemy spawns
+  kills: number[]; // and of recent kills
+  hits: number[]; // and of recent hits on the player
+  lastHitAt: number;
+  nextReview: number;
+  log: DirectorAdjustment[];
+}
+
+// Figures kept for every run; score, level and survived are high points, the rest count up
+export type AchievementStat =
+  | 'kills'
+  | 'bosses'
+  | 'flawlessBosses'
+  | 'powerUps'
+  | 'tripleShots'
+  | 'shieldBlocks'
+  | 'shots' // player bullets fired
+  | 'hits' // of those, ones that struck something
+  | 'deaths' // ships lost
+  | 'score'
+  | 'level'
+  | 'survived'; // ms
+
+export type AchievementCondition =
+  | { kind: 'run'; stat: AchievementStat; target: number } // reached within a single run
+  | { kind: 'lifetime'; stat: AchievementStat; target: number } // summed over every run
+  | { kind: 'window'; stat: AchievementStat; target: number; window: number } // reached within any `window` ms of a run
+  | { kind: 'boss'; boss?: number | 'final'; flawless: boolean }; // that BOSS_CONFIGS key, or any boss, beaten
+
 export interface Achievement {
   id: string;
   title: string;
   description: string;
+  condition: AchievementCondition;
   unlocked: boolean;
 }
 
+export interface AchievementProgress {
+  value: number;
+  target: number;
+}
+
+// What one run has done toward achievements
+export interface RunStats {
+  values: Record<AchievementStat, number>;
+  recent: Partial<Record<AchievementStat, number[]>>; // game times of recent increments to stats a window watches
+  peaks: Record<string, number>; // most increments inside each watched window, keyed by windowKey
+  bosses: number[]; // BOSS_CONFIGS keys beaten
+  flawlessBosses: number[]; // the same, without taking a hit
+  enemyKills: Record<EnemyType, number>;
+  bossRecords: Record<number, BossRecord>; // by BOSS_CONFIGS key; Endless bosses count as the config they wear
+  damage: Record<HitSource, number>; // hull hits taken; shields don't count
+}
+
+export interface BossRecord {
+  kills: number;
+  deaths: number; // ships lost during the fight
+}
+
+// The best of every finished run on one difficulty, which run, window and boss achievements are judged against
+export interface DifficultyBests {
+  bests: Record<AchievementStat, number>;
+  peaks: Record<string, number>;
+  bosses: number[];
+  flawlessBosses: number[];
+}
+
+// Every finished run folded together
+export interface LifetimeStats {
+  runs: number;
+  totals: Record<AchievementStat, number>;
+  bests: Record<AchievementStat, number>; // on any difficulty
+  difficulties: Record<Difficulty, DifficultyBests>;
+  enemyKills: Record<EnemyType, number>;
+  bossRecords: Record<number, BossRecord>;
+  damage: Record<HitSource, number>;
+}
+
 export interface Point {
   x: number;
   y: number;
@@ -36,22 +209,188 @@ export interface Entity {
   width: number;
   height: number;
   speed: number;
+  prevX?: number; // position before the last tick, for interpolated drawing
+  prevY?: number;
 }
 
 export interface Player extends Entity {
   health: number;
   maxHealth: number;
-  shieldActive: boolean;
+  shieldCharges: number; // hits the shield absorbs before the hull takes damage
   invincible: boolean;
-  invincibleTimer: number;
-  powerUpTimer: number;
-  activePowerUp: PowerUpType | null;
+  effects: ActiveEffect[]; // timed power-ups; each expires through a PowerUpExpire task
+  weapon: WeaponType;
+  weaponTier: number; // index into the weapon's tiers
+  ship: ShipType;
+  specialReadyAt: number; // game time the special can next be used
 }
 
 export interface Bullet extends Entity {
   damage: number;
   angle: number;
   isEnemy?: boolean;
+  spent: boolean; // hit something; returned to the pool at the end of the tick
+  baseSpeed: number;
+  firedAt: number; // game time in ms
+  speedCurve: SpeedKey[] | null;
+  pierce: number; // further targets it can pass through before it is spent
+  hitIds: string[]; // targets already pierced, so a long bolt hits each one once
+  homing: number; // radians per second it turns toward the nearest target
+  sway: number; // px it swings side to side; the sign picks which way it starts
+  swayRate: number; // radians per second
+  color: string | null; // null draws the side's default colour
+  grazed: boolean; // enemy shot that already paid out for passing close to the player
+}
+
+export type BulletKind =
+  | 'PLAYER' | 'SPREAD' | 'LASER' | 'MISSILE' | 'BEAM'
+  | 'RANGED' | 'RING' | 'AIMED' | 'SPIRAL' | 'RAIN' | 'WAVE' | 'NEEDLE' | 'ORB' | 'MINE';
+
+// Size, speed and damage shared by every bullet of one kind
+export interface BulletSpec {
+  width: number;
+  height: number;
+  speed: number;
+  damage: number;
+  color?: string;
+}
+
+// Speed multiplier `at` ms after firing; bullets interpolate linearly between keys
+export interface SpeedKey {
+  at: number;
+  speed: number;
+}
+
+// Shape of a single volley. Angles are radians, 0 is straight down the screen
+export type BulletVolley =
+  | { shape: 'ring'; count: number }
+  | { shape: 'fan'; count: number; spread: number; aimed?: boolean }
+  | { shape: 'spiral'; arms: number; turnRate: number } // turnRate: radians per second of game time
+  | { shape: 'curtain'; lanes: number; gap: number }; // gap: adjacent lanes left open at a random spot
+
+export type BulletEmitter = BulletVolley & {
+  bullet: BulletKind;
+  angle?: number; // added to every bullet's direction
+  delay?: number; // ms after the attack starts
+  repeat?: number; // extra volleys after the first
+  interval?: number; // ms between repeats
+  spin?: number; // radians the volley turns with each repeat
+  speedCurve?: SpeedKey[];
+  origin?: string; // boss part the volley fires from; skipped once that part is destroyed
+};
+
+// A boss attack: every emitter starts together and runs on its own delay and repeats
+export type BulletPattern = BulletEmitter[];
+
+// One upgrade level of a weapon; projectiles fan out from the middle of the ship
+export interface WeaponTier {
+  interval: number; // ms between shots
+  count: number; // projectiles per shot
+  spread: number; // radians between neighbouring projectiles
+  gap: number; // px between neighbouring barrels
+  damage: number;
+  pierce?: number; // extra targets each projectile passes through
+}
+
+export interface WeaponConfig {
+  name: string;
+  color: string;
+  bullet: BulletKind;
+  homing?: number; // turn rate toward the nearest target, radians per second
+  sway?: { amplitude: number; rate: number }; // side-to-side swing, px and radians per second
+  tiers: WeaponTier[]; // picking up the weapon already equipped moves one tier up
+}
+
+// Ship abilities, fired with the special key and then recharged over `cooldown`
+export type ShipSpecial =
+  | 'purge' // wipes every enemy shot off the screen
+  | 'dash' // a moment of invincibility
+  | 'barrier' // one shield charge
+  | 'stasis'; // a spell of time-slow
+
+// Vector art in fractions of the ship's size around its centre; wings are drawn mirrored
+export interface ShipArt {
+  hull: Point[];
+  wing: Point[]; // the right wing
+  cockpit: { y: number; width: number; height: number };
+  engines: number[]; // x of each engine glow along the tail
+  hullColor: string;
+  wingColor: string;
+  glowColor: string;
+}
+
+// Earned by unlocking an achievement (on any difficulty) or reaching a score in one run
+export type ShipUnlock = { achievement: string } | { score: number };
+
+export interface ShipConfig {
+  name: string;
+  description: string;
+  size: number; // hitbox width and height
+  speed: number;
+  healthBonus: number; // on top of the difficulty's player health
+  weapon: WeaponType; // starting weapon
+  special: ShipSpecial;
+  specialName: string;
+  cooldown: number; // ms between specials
+  unlock: ShipUnlock | null; // null for ships available from the start
+  art: ShipArt;
+}
+
+export interface UpgradeConfig {
+  name: string;
+  description: string;
+  costs: number[]; // salvage for each level in turn; the upgrade tops out after the last
+  step: number; // effect per level, in the unit the upgrade's description gives
+}
+
+// The special's recharge as the HUD shows it
+export interface SpecialStatus {
+  name: string;
+  remaining: number; // ms until it can fire again
+  cooldown: number;
+}
+
+export type BossMovement =
+  | 'sweep' // side to side, bouncing off the walls
+  | 'track' // slides toward the player's x
+  | 'weave'; // sweeps while bobbing up and down
+
+// One stage of a boss fight, entered once the boss's health drops to `at`
+export interface BossPhase {
+  at: number; // fraction of max health, 1 for the opening phase
+  movement: BossMovement;
+  speed: number; // multiplier on the boss's base speed
+  attackInterval: number; // ms between attacks
+  attacks: string[]; // keys of BULLET_PATTERNS, one picked at random per attack
+  ultimate?: { pattern: string; chance: number }; // extra attack rolled on top of the regular one
+  transition?: number; // ms the boss is invulnerable and holds fire while the phase begins
+}
+
+// Destructible sub-part; emitters with a matching `origin` fire from it while it stands
+export interface BossPartConfig {
+  id: string;
+  name: string;
+  x: number; // offset from the boss's top-left; parts should reach the hull's lower edge
+  y: number; // or shots from below hit the hull before them
+  width: number;
+  height: number;
+  health: number;
+  scoreValue: number;
+  shieldsBody?: boolean; // the boss itself takes no damage until this part is destroyed
+}
+
+export interface BossConfig {
+  name: string;
+  width: number;
+  height: number;
+  health: number;
+  scoreValue: number;
+  color: string;
+  speed: number;
+  count: number; // bosses in the fight
+  escorts: number; // heavy escorts that arrive with them
+  phases: BossPhase[]; // ordered by descending `at`
+  parts: BossPartConfig[];
 }
 
 export interface Enemy extends Entity {
@@ -61,6 +400,49 @@ export interface Enemy extends Entity {
   scoreValue: number;
   isBoss?: boolean;
   attackTimer?: number;
+  behaviour: string; // key in the behaviour registry that moves it each tick
+  age: number; // ms of hostile time since it spawned; slowed along with its movement
+  mode: number; // stage within its behaviour, e.g. descending, holding, retreating
+  modeSince: number; // age at which the current mode began
+  anchorX: number; // x it spawned at; oscillating and path behaviours move around it
+  anchorY: number; // y it spawned at, the start of a formation's flight path
+  vx: number; // px per second, for behaviours that keep their own velocity; starts along its entry direction
+  vy: number;
+  slot: number; // place in its formation: ms behind the head of a snake, radians around a circle
+  shielded: boolean; // protected by a nearby shielder this tick
+  entry: EntryEdge;
+  entered: boolean; // has been wholly on screen; until then flying off an edge doesn't count as leaving
+  formationId: string | null;
+}
+
+// Screen edge an enemy flies in from
+export type EntryEdge = 'top' | 'left' | 'right' | 'bottom';
+
+export type FormationShape = 'v' | 'line' | 'circle' | 'snake';
+
+// Squadron flying together; shooting down every member pays a bonus
+export interface Formation {
+  id: string;
+  shape: FormationShape;
+  size: number;
+  killed: number; // members shot down so far
+}
+
+export interface BossPart extends Entity {
+  partId: string; // id in the boss config's parts
+  bossId: string;
+  offsetX: number;
+  offsetY: number;
+  health: number;
+  maxHealth: number;
+  scoreValue: number;
+  shieldsBody: boolean;
+}
+
+export interface Boss extends Enemy {
+  phase: number; // index into the config's phases
+  invulnerableUntil: number; // game time in ms
+  parts: BossPart[]; // parts still standing
 }
 
 export interface Planet {
@@ -73,8 +455,42 @@ export interface Planet {
   detailColor: string;
 }
 
+/**
+ * What picking up a timed power-up that is already running does:
+ * refresh restarts its timer, extend adds the duration to the time left
+ * (up to `maxDuration`), stack adds a stack (up to `maxStacks`) and restarts
+ * the timer.
+ */
+export type PowerUpStacking = 'refresh' | 'extend' | 'stack';
+
+export interface PowerUpConfig {
+  name: string;
+  label: string; // letter drawn on the pickup
+  color: string;
+  weight: number; // relative chance of being the one that spawns
+  duration: number; // ms; 0 for effects applied once on pickup
+  stacking?: PowerUpStacking; // timed power-ups only
+  maxStacks?: number; // also caps shield charges
+  maxDuration?: number;
+}
+
+export interface ActiveEffect {
+  type: PowerUpType;
+  stacks: number;
+  duration: number; // ms the current timer was started with, for the HUD bar
+}
+
+// Remaining time of an effect, as the HUD shows it
+export interface EffectTimer {
+  type: PowerUpType;
+  stacks: number;
+  remaining: number; // ms; 0 for effects without a timer
+  duration: number;
+}
+
 export interface PowerUp extends Entity {
   type: PowerUpType;
+  weapon: WeaponType | null; // what a WEAPON pickup equips
 }
 
 export interface Particle {
@@ -87,3 +503,260 @@ export interface Particle {
   color: string;
   size: number;
 }
+
+// Where points came from, for the breakdown shown when a run ends
+export type ScoreSource =
+  | 'kills'
+  | 'combo'
+  | 'bosses'
+  | 'formations'
+  | 'graze'
+  | 'noMiss'
+  | 'escapes'
+  | 'headStart'; // what a playtest starts with, standing in for the levels it skips
+
+export type ScoreBreakdown = Record<ScoreSource, number>;
+
+// Kill chain as the HUD shows it
+export interface ComboStatus {
+  count: number;
+  multiplier: number;
+  remaining: number; // ms until the chain breaks
+  duration: number;
+}
+
+// Player controls sampled once per simulation tick
+export interface InputFrame {
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  down: boolean;
+  fire: boolean;
+  special: boolean;
+  pointer: Point | null;
+}
+
+// Complete state of a run, advanced by the simulation one tick at a time
+export interface WorldState {
+  mode: GameMode;
+  outcome: RunOutcome | null; // set on the tick the run ends
+  difficulty: Difficulty;
+  director: DirectorState | null; // only when the adaptive assist is on
+  time: number; // game time in ms
+  nextId: number;
+  score: number;
+  scoreBreakdown: ScoreBreakdown; // sums to the score
+  forfeitedScore: number; // given up by continuing; still counts toward levelling up
+  lives: number; // spare ships, separate from the hull's health
+  nextLifeAt: number; // score that earns the next spare ship
+  credits: number; // continues left
+  continues: number; // continues taken
+  combo: number; // kills in the current chain; each restarts the ComboExpire timer
+  bestCombo: number;
+  bossHitTaken: boolean; // the player has been hit since the current boss fight began
+  level: number;
+  player: Player;
+  enemies: Enemy[];
+  formations: Formation[]; // squadrons with members still in flight
+  bosses: Boss[];
+  bullets: Bullet[];
+  powerUps: PowerUp[];
+  lastEnemySpawn: number;
+  lastPowerUpSpawn: number;
+  stats: RunStats;
+  lastShot: number;
+  lastLevelHealed: number;
+  bossWarningActive: boolean;
+  bossEntranceTime: number;
+  schedule: ScheduledEntry[];
+  waveLevel: number; // level whose wave script is running
+  waveStart: number; // game time the current pass through that script began
+  nextWave: number; // index of the next wave to spawn
+  bossKey: number; // BOSS_CONFIGS key of the current or next boss fight
+  upgrades: UpgradeLevels; // the shop's upgrades this run started with
+  levelOverride: LevelScript | null; // played instead of the bundled script for its level, e.g. by the editor
+}
+
+// Delayed action on the game clock; plain data so it survives saving and replays
+export type ScheduledTask =
+  | { kind: 'BossArrival' }
+  | { kind: 'InvincibilityEnd' }
+  | { kind: 'ComboExpire' }
+  | { kind: 'PowerUpExpire'; powerUp: PowerUpType }
+  | { kind: 'BossVolley'; bossId: string; pattern: string; emitter: number; volley: number }
+  | { kind: 'EnemySpawn'; enemy: EnemyType; entry: EntryEdge; x: number; y: number; healthScale: number; behaviour?: string };
+
+// One group of enemies in a level script
+export interface WaveSpawn {
+  at: number; // ms after the level starts
+  enemy: EnemyType;
+  count: number;
+  x: number; // left edge of the first enemy, or the middle of a formation, in canvas pixels
+  y?: number; // the same for enemies entering from the left or right edge
+  spacing?: number; // px between group members
+  interval?: number; // ms between group members
+  healthScale?: number; // multiplier on the usual level-scaled health
+  behaviour?: string; // overrides the enemy type's usual behaviour
+  entry?: EntryEdge; // defaults to the top
+  formation?: FormationShape; // the group flies in together in this shape; spacing and interval are ignored
+}
+
+// Scripted spawn timeline for one level, loaded from src/levels/*.json
+export interface LevelScript {
+  level: number;
+  name?: string;
+  length: number; // ms
+  loop: boolean; // start over at the end; otherwise random spawning takes over
+  boss?: number; // BOSS_CONFIGS key fought when the timeline ends, instead of looping
+  waves: WaveSpawn[];
+}
+
+export interface ScheduledEntry {
+  at: number; // game time in ms
+  task: ScheduledTask;
+}
+
+// What hurt the player
+export type HitSource = 'bullet' | 'enemy' | 'boss';
+
+export type SimEvent =
+  | { type: 'ScoreChanged'; score: number }
+  | { type: 'LevelUp'; level: number }
+  | { type: 'HealthChanged'; health: number }
+  | { type: 'WeaponChanged'; weapon: WeaponType; tier: number }
+  | { type: 'EnemyKilled'; enemy: EnemyType; x: number; y: number } // x and y are its centre
+  | { type: 'PlayerHit'; source: HitSource }
+  | { type: 'ShipLost'; boss: number | null } // the boss being fought, if any
+  | { type: 'ShotsFired'; count: number }
+  | { type: 'ShotHit' } // a player bullet's first impact
+  | { type: 'ShieldAbsorbed'; source: HitSource }
+  | { type: 'PowerUpCollected'; powerUp: PowerUpType }
+  | { type: 'BossWarning'; bossName: string | null }
+  | { type: 'BossSpawned'; boss: number }
+  | { type: 'BossPhaseChanged'; phase: number }
+  | { type: 'BossDefeated'; boss: number; flawless: boolean }
+  | { type: 'FormationWiped'; shape: FormationShape; bonus: number; x: number; y: number }
+  | { type: 'NoMissBonus'; bonus: number }
+  | { type: 'RunEnded'; outcome: RunOutcome; credits: number } // credits left to continue with
+  | { type: 'LivesChanged'; lives: number }
+  | { type: 'SpecialUsed'; ship: ShipType }
+  | { type: 'Explosion'; x: number; y: number; color: string; count: number };
+
+// Marks on a best score that wasn't set the hard way
+export const RECORD_TAGS = ['assist', 'continued', 'upgraded'] as const;
+export type RecordTag = (typeof RECORD_TAGS)[number];
+
+export interface ScoreRecord {
+  score: number;
+  tags: RecordTag[];
+}
+
+// Menu choices, remembered between visits
+export interface ProfileSettings {
+  mode: GameMode;
+  difficulty: Difficulty;
+  assist: boolean;
+  ship: ShipType;
+  pure: boolean; // start runs without the shop's upgrades
+}
+
+// Everything the player has earned, saved as one versioned document
+export interface PlayerProfile {
+  format: 'lsr-profile';
+  version: number;
+  savedAt: string;
+  settings: ProfileSettings;
+  records: Record<GameMode, Record<Difficulty, ScoreRecord>>;
+  achievements: Record<Difficulty, string[]>; // unlocked ids
+  ships: ShipType[]; // unlocked in the hangar
+  lifetime: LifetimeStats;
+  history: RunHistoryEntry[]; // most recent runs, oldest first
+  salvage: number; // unspent
+  upgrades: UpgradeLevels; // bought in the shop
+}
+
+// One finished run as the stats screen charts it
+export interface RunHistoryEntry {
+  endedAt: string; // ISO time
+  mode: GameMode;
+  difficulty: Difficulty;
+  ship: ShipType;
+  outcome: RunOutcome;
+  score: number;
+  level: number;
+  duration: number; // ms of game time
+  kills: number;
+  continues: number;
+}
+
+// How a finished run earned its score, shown on the game-over screen
+export interface RunSummary {
+  mode: GameMode;
+  difficulty: Difficulty;
+  ship: ShipType;
+  outcome: RunOutcome;
+  score: number;
+  level: number;
+  breakdown: ScoreBreakdown;
+  bestCombo: number;
+  assist: DirectorAdjustment[] | null; // the director's adjustments, when it was on
+  continues: number;
+  stats: RunStats;
+}
+
+/**
+ * Everything the game announces on its event bus: what the canvas reports
+ * about the run, plus the simulation's own events for live runs (a replay or
+ * the benchmark only redraws them).
+ */
+export type GameEvent =
+  | SimEvent
+  | {
+      type: 'RunStarted'; // a new or resumed run, with the HUD's starting values
+      resumed: boolean;
+      difficulty: Difficulty;
+      score: number;
+      level: number;
+      health: number;
+      maxHealth: number;
+      lives: number;
+      weapon: WeaponType;
+      weaponTier: number;
+    }
+  | { type: 'StatsUpdated'; stats: RunStats } // after every tick
+  | { type: 'AchievementUnlocked'; id: string } // earned this run; may already have been unlocked before
+  | { type: 'EffectsChanged'; effects: EffectTimer[] }
+  | { type: 'ComboChanged'; combo: ComboStatus }
+  | { type: 'SpecialChanged'; special: SpecialStatus }
+  | { type: 'TimeLeftChanged'; ms: number | null }
+  | { type: 'RunSummary'; summary: RunSummary };
+
+// Recorded run: the seed plus every tick's input, enough to re-simulate it exactly
+export interface Replay {
+  format: 'lsr-replay';
+  version: number;
+  seed: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  assist: boolean; // recorded with the adaptive difficulty director on
+  ship: ShipType;
+  upgrades: UpgradeLevels;
+  ticks: number;
+  recordedAt: string;
+  finalScore: number;
+  finalLevel: number;
+  input: number[][]; // run-length encoded [repeat, mask, pointerX?, pointerY?]
+  continues: number[]; // ticks after which a credit was spent to continue
+}
+
+// Saved mid-run state that restores a run exactly where it was left
+export interface Checkpoint {
+  format: 'lsr-checkpoint';
+  version: number;
+  savedAt: string;
+  seed: number;
+  tick: number;
+  rngState: number;
+  world: WorldState;
+  recording: { ticks: number; input: number[][]; continues: number[] };
+}